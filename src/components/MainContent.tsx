@@ -8,10 +8,17 @@ import React, {
   useState,
 } from "react";
 import { useWallet, useConnection } from "@solana/wallet-adapter-react";
-import { Keypair, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+} from "@solana/web3.js";
 import {
   ASSOCIATED_TOKEN_PROGRAM_ID,
   MINT_SIZE,
+  TOKEN_2022_PROGRAM_ID,
   TOKEN_PROGRAM_ID,
   createAssociatedTokenAccountInstruction,
   createInitializeMintInstruction,
@@ -23,26 +30,91 @@ import { encodeFunctionData, createPublicClient, http } from "viem";
 import { base as baseMainnet, baseSepolia } from "viem/chains";
 import { AbiCoder, formatUnits, parseUnits } from "ethers";
 import { getBase58Codec } from "@solana/kit";
-import { solanaBridge, type BridgeAssetOverrides } from "../lib/bridge";
 import {
+  solanaBridge,
+  type BridgeAssetOverrides,
+  type BridgeBatchItem,
+  type BridgeFeeEstimate,
+  type BridgeFeeEstimateOptions,
+  type PreparedBridge,
+  type WithdrawSubmission,
+} from "../lib/bridge";
+import type {
+  BridgeSimulationResult,
+  ComputeBudgetSettings,
+  TransactionSizeReport,
+} from "../lib/realBridgeImplementation";
+import {
+  BRIDGE_CONFIG,
+  DEFAULT_GAS_LIMIT,
   PROJECT_TAGLINE,
   getEnvironmentPreset,
-  type BridgeEnvironment,
 } from "../lib/constants";
 import { useNetwork } from "../contexts/NetworkContext";
 import {
+  expandCallBlocks,
+  isAmountShorthand,
   parseTerminalCommand,
   type ParsedCommand,
+  type AbiCommandAction,
   type BridgeCommandPayload,
   type DeploySplPayload,
+  type HistoryCommandOptions,
+  type ScheduleCommandAction,
+  type WaitForStage,
+  type WithdrawCommandPayload,
 } from "../lib/terminalParser";
 import type { BaseContractCall } from "../lib/realBridgeImplementation";
+import { toBytes32Hex } from "../lib/baseWithdraw";
+import { encodeFunctionCall } from "../lib/abiArgs";
+import { abiRegistry } from "../lib/abiRegistry";
+import { contractDeployer } from "../lib/contractDeployer";
+import { transactionSender } from "../lib/transactionSender";
+import { programErrorDecoder } from "../lib/programErrors";
+import { bridgeScheduler, formatInterval } from "../lib/bridgeScheduler";
+import { terminalVariables } from "../lib/terminalVariables";
+import { commandHistory } from "../lib/commandHistory";
+import type { CompletionSources } from "../lib/terminalCompletion";
+import type { SquadsVault } from "../lib/squadsMultisig";
+import {
+  bridgeTracker,
+  type BridgeLifecycleStage,
+  type BridgeStatus,
+  type TrackedBridge,
+} from "../lib/bridgeTracker";
 import { createLog, type LogEntry, type TerminalVariant } from "../lib/terminalLogs";
+import { TerminalInput } from "./terminal/TerminalInput";
+
+interface StagedCallMeta {
+  contract: string;
+  selector: string;
+  args: string[];
+  value?: string;
+  allowFailure?: boolean;
+}
+
+interface StagedCall {
+  call: BaseContractCall;
+  meta: StagedCallMeta;
+}
+
+interface StagedVault extends SquadsVault {
+  /** Twin of the vault, which sends the attached calls on Base */
+  twin: string | null;
+}
 
 interface BridgeStage {
   payload: BridgeCommandPayload;
   overrides?: BridgeAssetOverrides;
   call: BaseContractCall | null;
+  vault?: StagedVault;
+}
+
+interface BridgeRunSummary {
+  stage: BridgeStage;
+  status: "sent" | "proposed" | "simulated" | "exported" | "failed" | "skipped";
+  signature?: string;
+  detail?: string;
 }
 
 const BRIDGE_ABI = [
@@ -74,7 +146,7 @@ const FLYWHEEL_ABI = [
 
 const MULTICALL_ABI = [
   {
-    name: "multicall",
+    name: "aggregate3Value",
     type: "function",
     stateMutability: "payable",
     inputs: [
@@ -83,30 +155,33 @@ const MULTICALL_ABI = [
         type: "tuple[]",
         components: [
           { name: "target", type: "address" },
+          { name: "allowFailure", type: "bool" },
+          { name: "value", type: "uint256" },
           { name: "callData", type: "bytes" },
         ],
       },
     ],
-    outputs: [{ name: "returnData", type: "bytes[]" }],
+    outputs: [
+      {
+        name: "returnData",
+        type: "tuple[]",
+        components: [
+          { name: "success", type: "bool" },
+          { name: "returnData", type: "bytes" },
+        ],
+      },
+    ],
   },
 ] as const;
 
-const toBytes32Hex = (pubkey: PublicKey): `0x${string}` =>
-  `0x${Array.from(pubkey.toBytes())
-    .map((byte) => byte.toString(16).padStart(2, "0"))
-    .join("")}`;
-
 
 export const MainContent: React.FC = () => {
-  const { publicKey, connected, signTransaction } = useWallet();
+  const { publicKey, connected, signTransaction, signAllTransactions } = useWallet();
   const { connection } = useConnection();
   const { config, environment } = useNetwork();
   
   const [commandBatch, setCommandBatch] = useState("");
   const [isLocked, setIsLocked] = useState(false);
-  const [recentSignatures, setRecentSignatures] = useState<
-    { signature: string; environment: BridgeEnvironment }[]
-  >([]);
   const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
   const [pendingBridge, setPendingBridge] =
     useState<BridgeCommandPayload | null>(null);
@@ -114,16 +189,14 @@ export const MainContent: React.FC = () => {
     BridgeAssetOverrides | undefined
   >(undefined);
   const [pendingCall, setPendingCall] = useState<BaseContractCall | null>(null);
-  const [pendingCallMeta, setPendingCallMeta] = useState<{
-    contract: string;
-    selector: string;
-    args: string[];
-    value?: string;
-  } | null>(null);
+  const [pendingCallMeta, setPendingCallMeta] = useState<StagedCallMeta[] | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [stagedFee, setStagedFee] = useState<BridgeFeeEstimate | null>(null);
   const [twinAddress, setTwinAddress] = useState<string | null>(null);
+  const [stagedVault, setStagedVault] = useState<StagedVault | null>(null);
   const [exampleCopied, setExampleCopied] = useState(false);
   const [isGuideOpen, setIsGuideOpen] = useState(false);
+  const [recentDestinations, setRecentDestinations] = useState<string[]>([]);
   const logRef = useRef<HTMLDivElement>(null);
 
   const supportedAssets = solanaBridge.getSupportedAssets();
@@ -143,11 +216,27 @@ export const MainContent: React.FC = () => {
     config.base.wrappedSOL
   } --call-selector "transfer(address,uint256)" --call-args ${zeroAddress} 1000`;
 
-  const appendLog = useCallback((variant: TerminalVariant, content: string) => {
-    setLogEntries((prev) =>
-      [createLog(variant, content), ...prev].slice(0, 50)
-    );
-  }, []);
+  const appendLog = useCallback(
+    (variant: TerminalVariant, content: string, details?: string[]) => {
+      setLogEntries((prev) =>
+        [createLog(variant, content, details), ...prev].slice(0, 50)
+      );
+    },
+    []
+  );
+
+  // Log a failed transaction, decoding bridge / relayer program errors when possible
+  const appendTxError = useCallback(
+    (error: unknown, fallback: string, logs?: string[]) => {
+      const decoded = programErrorDecoder.decode(error, config.solana, logs);
+      if (decoded) {
+        appendLog("error", decoded.message, decoded.logs);
+        return;
+      }
+      appendLog("error", error instanceof Error ? error.message : fallback);
+    },
+    [appendLog, config.solana]
+  );
 
   const handleExampleCopy = useCallback(async () => {
     try {
@@ -175,6 +264,20 @@ export const MainContent: React.FC = () => {
     return () => clearTimeout(timeout);
   }, [exampleCopied]);
 
+  // Twins are keyed by the Solana sender, so a multisig vault has its own Twin
+  const fetchTwinAddress = useCallback(
+    async (owner: PublicKey): Promise<string> => {
+      const address = await baseClient.readContract({
+        address: config.base.bridge as `0x${string}`,
+        abi: BRIDGE_ABI,
+        functionName: "getPredictedTwinAddress",
+        args: [toBytes32Hex(owner)],
+      });
+      return address as string;
+    },
+    [baseClient, config.base.bridge]
+  );
+
   useEffect(() => {
     if (!publicKey) {
       setTwinAddress(null);
@@ -185,15 +288,9 @@ export const MainContent: React.FC = () => {
 
     const resolveTwin = async () => {
       try {
-        const sender = toBytes32Hex(publicKey);
-        const address = await baseClient.readContract({
-          address: config.base.bridge as `0x${string}`,
-          abi: BRIDGE_ABI,
-          functionName: "getPredictedTwinAddress",
-          args: [sender],
-        });
+        const address = await fetchTwinAddress(publicKey);
         if (!cancelled) {
-          setTwinAddress(address as string);
+          setTwinAddress(address);
         }
       } catch (error) {
         if (!cancelled) {
@@ -209,12 +306,27 @@ export const MainContent: React.FC = () => {
     return () => {
       cancelled = true;
     };
-  }, [baseClient, config.base.bridge, publicKey]);
+  }, [fetchTwinAddress, publicKey]);
+
+  useEffect(() => {
+    if (!pendingBridge) {
+      setStagedVault(null);
+      setStagedFee(null);
+    }
+  }, [pendingBridge]);
+
+  useEffect(() => {
+    terminalVariables.setBuiltin("WALLET", publicKey?.toBase58() ?? null);
+  }, [publicKey]);
+
+  useEffect(() => {
+    terminalVariables.setBuiltin("TWIN", twinAddress);
+  }, [twinAddress]);
 
-  const runWithLock = useCallback(async (action: () => Promise<void>) => {
+  const runWithLock = useCallback(async <T,>(action: () => Promise<T>): Promise<T> => {
     setIsLocked(true);
     try {
-      await action();
+      return await action();
     } finally {
       setIsLocked(false);
     }
@@ -222,10 +334,78 @@ export const MainContent: React.FC = () => {
 
   const printHelp = useCallback(() => {
     appendLog("system", PROJECT_TAGLINE);
-    appendLog("system", "commands:");
+    appendLog("system", "commands (press Tab in the terminal to complete commands, flags, assets and abi functions):");
+    appendLog(
+      "system",
+      ' bridge <amount> <asset> <destination> [--mint <mint> --remote <0x..> --decimals <n> --call-contract <addr> --call-selector "transfer(address,uint256)" --call-args <arg1> <arg2> --call <alias>.<fn> <args..> [--value <eth> --allow-failure] --deploy <bytecode|artifact> --salt <hex> --ctor-args <args..> --call-value <eth> --gas-limit <n|auto> --priority-fee <microlamports|auto> --cu-limit <n> --squads <multisig> --vault-index <n> --dry-run --export]'
+    );
+    appendLog(
+      "system",
+      "   amount: a number, max, 50% or all-but 0.01; SOL keeps back fees and rent, the exact amount is shown when staged"
+    );
+    appendLog(
+      "system",
+      "   call args: arrays [1,2], tuples (0xabc,1), bool true|false, ints like -5, 1.5e18, \"100 gwei\", \"2 ether\""
+    );
+    appendLog(
+      "system",
+      "   repeat --call to batch several calls via Multicall3, or follow a bridge line with a calls … end block; --value only works on a single call"
+    );
+    appendLog(
+      "system",
+      "   --gas-limit auto estimates a single call from your Twin before the bridged funds arrive, so calls that spend them fall back to the default limit"
+    );
+    appendLog(
+      "system",
+      " abi add <alias> <0x-address> <abi-json|url|name>   register a Base contract ABI (e.g. abi add wsol 0x.. erc20)"
+    );
+    appendLog(
+      "system",
+      " abi list | abi show <alias>  list registered contracts or their function signatures"
+    );
+    appendLog(
+      "system",
+      " simulate <amount> <asset> <destination> [flags]   same as bridge --dry-run: simulate without signing"
+    );
     appendLog(
       "system",
-      ' bridge <amount> <asset> <destination> [--mint <mint> --remote <0x..> --decimals <n> --call-contract <addr> --call-selector "transfer(address,uint256)" --call-args <arg1> <arg2> --call-value <eth>]'
+      " set <NAME> <value>          define $NAME for later commands; 'set' lists variables incl. $TWIN $WALLET $LAST_MINT $LAST_SIG"
+    );
+    appendLog(
+      "system",
+      " several bridge lines in one batch all run in order; plain ones are packed into shared transactions and signed together"
+    );
+    appendLog(
+      "system",
+      " set -e | set +e             in a batch, stop at (or continue past) the first failing line; a failed bridge always stops it"
+    );
+    appendLog(
+      "system",
+      " wait-for [<sig|salt>] [submitted|relayed-paid|validated|executed]   pause until $LAST_SIG (or the given bridge) gets there"
+    );
+    appendLog(
+      "system",
+      ' confirm "<message>"         ask before the rest of the batch runs; # starts a comment line'
+    );
+    appendLog(
+      "system",
+      ' schedule add "<bridge ...>" --every <30m|24h|1d>   repeat a bridge while the app is open (confirmed before each run)'
+    );
+    appendLog(
+      "system",
+      " schedule list | schedule rm <id>   show or remove scheduled bridges"
+    );
+    appendLog(
+      "system",
+      " bridge ... --export         print the unsigned transaction (base64 + JSON summary) for offline or multisig signing"
+    );
+    appendLog(
+      "system",
+      " bridge ... --squads <ms>    propose the bridge from a Squads v4 vault (--vault-index, default 0) instead of sending it"
+    );
+    appendLog(
+      "system",
+      " submit <base64>             broadcast an externally signed transaction and track it"
     );
     appendLog(
       "system",
@@ -245,11 +425,27 @@ export const MainContent: React.FC = () => {
     );
     appendLog(
       "system",
-      " deploySpl <name> <symbol> <decimals> <supply>   deploy SPL on devnet to your wallet"
+      " withdraw <amount> <asset> <solana-address> [--from twin|evm]   bridge back from Base to Solana"
+    );
+    appendLog(
+      "system",
+      " deploySpl <name> <symbol> <decimals> <supply> [--token-2022]   deploy SPL on devnet to your wallet"
+    );
+    appendLog(
+      "system",
+      " history [tx] [--limit n --before sig]   on-chain bridge history for your wallet"
+    );
+    appendLog(
+      "system",
+      " history cmd [--limit n]     commands typed with this wallet; !! re-runs the last one, !n entry n"
     );
     appendLog(
       "system",
-      " history                     recent Solana transaction signatures"
+      " status <signature|salt>     lifecycle timeline of a submitted bridge"
+    );
+    appendLog(
+      "system",
+      " fee [asset]                 estimate relay gas, rent and signature fees"
     );
     appendLog(
       "system",
@@ -273,33 +469,287 @@ export const MainContent: React.FC = () => {
     });
   }, [appendLog, supportedAssets]);
 
-  const printHistory = useCallback(() => {
-    if (recentSignatures.length === 0) {
-      appendLog("system", "no bridge transactions yet.");
-      return;
-    }
+  const printHistory = useCallback(
+    async (walletAddress: PublicKey, options: HistoryCommandOptions): Promise<boolean> => {
+      try {
+        const { transfers, scanned, nextBefore } = await solanaBridge.getBridgeHistory(
+          walletAddress,
+          options
+        );
 
-    appendLog("system", "recent signatures:");
-    recentSignatures.forEach(({ signature, environment: sigEnv }) => {
-      const preset = getEnvironmentPreset(sigEnv);
-      appendLog(
-        "system",
-        ` • [${preset.label}] ${preset.solana.blockExplorer}/tx/${signature}${
-          preset.solana.explorerTxSuffix ?? ""
-        }`
-      );
-    });
-  }, [appendLog, recentSignatures]);
+        if (transfers.length === 0) {
+          appendLog("system", `no bridge transactions in the last ${scanned} signatures.`);
+        } else {
+          appendLog("system", `bridge history [${config.label}] (${scanned} signatures scanned):`);
+          transfers.forEach((transfer) => {
+            const when = transfer.timestamp
+              ? new Date(transfer.timestamp).toLocaleString()
+              : "unknown time";
+            const call = transfer.call
+              ? ` + ${transfer.call.type} ${transfer.call.target ?? ""} (${(transfer.call.data?.length ?? 2) / 2 - 1} bytes)`
+              : "";
+            appendLog(
+              transfer.status === "failed" ? "error" : "system",
+              ` • ${when} :: ${transfer.amount} ${transfer.asset} → ${transfer.destinationAddress}${call} :: ${
+                config.solana.blockExplorer
+              }/tx/${transfer.txHash}${config.solana.explorerTxSuffix ?? ""}`
+            );
+          });
+        }
+
+        if (nextBefore) {
+          appendLog("system", `more: history tx --limit ${options.limit ?? 25} --before ${nextBefore}`);
+        }
+        return true;
+      } catch (error) {
+        appendLog(
+          "error",
+          error instanceof Error ? error.message : "failed to load bridge history."
+        );
+        return false;
+      }
+    },
+    [appendLog, config.label, config.solana]
+  );
+
+  const printCommandHistory = useCallback(
+    (limit = 25) => {
+      const entries = commandHistory.list(environment, publicKey);
+      if (entries.length === 0) {
+        appendLog("system", `no commands recorded for this wallet on ${config.label} yet.`);
+        return;
+      }
+      appendLog("system", `command history [${config.label}] (${Math.min(limit, entries.length)} of ${entries.length}):`);
+      entries.slice(-limit).forEach((entry, offset) => {
+        const number = entries.length - Math.min(limit, entries.length) + offset + 1;
+        appendLog("system", ` ${String(number).padStart(4)}  ${entry}`);
+      });
+    },
+    [appendLog, config.label, environment, publicKey]
+  );
+
+  const formatBridgeStage = useCallback(
+    (stage: BridgeLifecycleStage, status: BridgeStatus) => {
+      const preset = getEnvironmentPreset(status.bridge.environment);
+      switch (stage) {
+        case "submitted":
+          return `bridge ${status.bridge.signature.slice(0, 8)}… submitted on ${preset.solana.name}`;
+        case "relayed-paid":
+          return `bridge ${status.bridge.signature.slice(0, 8)}… relay paid`;
+        case "validated":
+          return `bridge ${status.bridge.signature.slice(0, 8)}… validated on ${preset.base.name}`;
+        case "executed":
+          return `bridge ${status.bridge.signature.slice(0, 8)}… executed on ${preset.base.name}`;
+        case "failed":
+          return `bridge ${status.bridge.signature.slice(0, 8)}… failed`;
+      }
+    },
+    []
+  );
+
+  const watchBridge = useCallback(
+    (bridge: TrackedBridge) => {
+      // Stage updates stream into the log while the terminal stays usable
+      bridgeTracker
+        .watch(bridge, (stage, status) => {
+          appendLog(
+            stage === "failed" ? "error" : stage === "executed" ? "success" : "system",
+            formatBridgeStage(stage, status)
+          );
+        })
+        .catch((error) => {
+          console.warn("[terminally-onchain] bridge tracking stopped", error);
+        });
+    },
+    [appendLog, formatBridgeStage]
+  );
+
+  const printStatus = useCallback(
+    async (query: string): Promise<boolean> => {
+      const bridge = bridgeTracker.find(query);
+      if (!bridge) {
+        appendLog("error", `no tracked bridge matches "${query}".`);
+        return false;
+      }
+
+      try {
+        const status = await bridgeTracker.getStatus(bridge);
+        const preset = getEnvironmentPreset(bridge.environment);
+        appendLog("system", `status [${preset.label}] :: ${bridge.signature}`);
+        appendLog("system", ` salt ${bridge.salt}`);
+        appendLog("system", ` outgoingMessage ${bridge.outgoingMessage}`);
+        appendLog("system", ` messageToRelay ${bridge.messageToRelay}`);
+        if (status.messageHash) {
+          appendLog("system", ` messageHash ${status.messageHash}`);
+        }
+        status.timeline.forEach((entry) => {
+          appendLog(
+            entry.stage === "failed" ? "error" : "system",
+            ` ${entry.reached ? "[x]" : "[ ]"} ${entry.stage.padEnd(13)}${entry.detail ? ` ${entry.detail}` : ""}`
+          );
+        });
+        return true;
+      } catch (error) {
+        appendLog(
+          "error",
+          error instanceof Error ? error.message : "failed to fetch bridge status."
+        );
+        return false;
+      }
+    },
+    [appendLog]
+  );
+
+  /**
+   * Block until a tracked bridge reaches `stage` (executed by default), or until any other
+   * Solana signature confirms. Defaults to $LAST_SIG so batch scripts can pause after a send.
+   */
+  const handleWaitFor = useCallback(
+    async (target?: string, stage?: WaitForStage): Promise<boolean> => {
+      const query = target ?? terminalVariables.get("LAST_SIG");
+      if (!query) {
+        appendLog("error", "nothing to wait for: no signature given and $LAST_SIG is not set yet.");
+        return false;
+      }
+
+      const bridge = bridgeTracker.find(query);
+      if (bridge) {
+        const until = stage ?? "executed";
+        appendLog("system", `waiting for ${bridge.signature} to reach ${until}...`);
+        try {
+          const status = await bridgeTracker.watch(bridge, () => {}, until);
+          const reached = status.timeline.some((entry) => entry.stage === until && entry.reached);
+          if (reached) {
+            appendLog("success", formatBridgeStage(until, status));
+            return true;
+          }
+          if (status.stage === "failed") {
+            appendLog("error", formatBridgeStage("failed", status));
+          } else {
+            appendLog("error", `bridge did not reach ${until} in time; check it later with status ${bridge.signature}.`);
+          }
+        } catch (error) {
+          appendLog("error", error instanceof Error ? error.message : "failed to fetch bridge status.");
+        }
+        return false;
+      }
+
+      if (stage) {
+        appendLog("error", `no tracked bridge matches "${query}"; bridge stages need a bridge sent from this browser.`);
+        return false;
+      }
+
+      appendLog("system", `waiting for ${query} to confirm...`);
+      const deadline = Date.now() + BRIDGE_CONFIG.bridgeTimeout;
+      try {
+        while (Date.now() < deadline) {
+          const { value } = await connection.getSignatureStatus(query, { searchTransactionHistory: true });
+          if (value?.err) {
+            appendLog("error", `${query} failed on ${config.solana.name}: ${JSON.stringify(value.err)}`);
+            return false;
+          }
+          if (value?.confirmationStatus === "confirmed" || value?.confirmationStatus === "finalized") {
+            appendLog("success", `${query} ${value.confirmationStatus} on ${config.solana.name}.`);
+            return true;
+          }
+          await new Promise((resolve) => setTimeout(resolve, BRIDGE_CONFIG.rebroadcastInterval));
+        }
+        appendLog("error", `${query} did not confirm in time.`);
+      } catch (error) {
+        appendLog("error", error instanceof Error ? error.message : "failed to fetch signature status.");
+      }
+      return false;
+    },
+    [appendLog, config.solana.name, connection, formatBridgeStage]
+  );
+
+  const formatFee = useCallback(
+    (fee: BridgeFeeEstimate) => `${formatUnits(fee.total, 9)} SOL`,
+    []
+  );
+
+  const printFee = useCallback(
+    async (asset: string): Promise<boolean> => {
+      try {
+        const fee = await solanaBridge.estimateBridgeFee({
+          assetType: asset === "sol" ? "sol" : "spl",
+        });
+        appendLog("system", `fee estimate [${config.label}] :: ${asset.toUpperCase()} bridge`);
+        appendLog(
+          "system",
+          ` relay gas      ${formatUnits(fee.relayFee, 9)} SOL (${fee.gasLimit.toString()} gas on ${config.base.name})`
+        );
+        appendLog("system", ` message rent   ${formatUnits(fee.outgoingMessageRent, 9)} SOL`);
+        appendLog("system", ` relay rent     ${formatUnits(fee.messageToRelayRent, 9)} SOL`);
+        appendLog("system", ` signature fee  ${formatUnits(fee.signatureFee, 9)} SOL`);
+        if (fee.priorityFee > BigInt(0)) {
+          appendLog("system", ` priority fee   ${formatUnits(fee.priorityFee, 9)} SOL`);
+        }
+        appendLog("success", ` total          ${formatFee(fee)}`);
+        return true;
+      } catch (error) {
+        appendLog(
+          "error",
+          error instanceof Error ? error.message : "failed to estimate bridge fee."
+        );
+        return false;
+      }
+    },
+    [appendLog, config.base.name, config.label, formatFee]
+  );
+
+  const handleAbi = useCallback(
+    async (action: AbiCommandAction): Promise<boolean> => {
+      try {
+        if (action.kind === "add") {
+          const entry = await abiRegistry.add(environment, action.alias, action.address, action.source);
+          appendLog(
+            "success",
+            `abi registered [${config.label}] :: ${entry.alias} → ${entry.address} (${abiRegistry.getFunctionSignatures(entry).length} functions)`
+          );
+          return true;
+        }
+
+        if (action.kind === "list") {
+          const entries = abiRegistry.list(environment);
+          if (entries.length === 0) {
+            appendLog("system", `no ABIs registered for ${config.label}. Try abi add <alias> <0x-address> erc20`);
+            return true;
+          }
+          appendLog("system", `abi registry [${config.label}]:`);
+          entries.forEach((entry) => {
+            appendLog("system", ` ${entry.alias.padEnd(14)} ${entry.address} (${entry.source})`);
+          });
+          return true;
+        }
+
+        const entry = abiRegistry.get(environment, action.alias);
+        if (!entry) {
+          appendLog("error", `unknown contract alias "${action.alias}".`);
+          return false;
+        }
+        appendLog("system", `${entry.alias} :: ${entry.address}`);
+        abiRegistry.getFunctionSignatures(entry).forEach((signature) => {
+          appendLog("system", ` ${entry.alias}.${signature}`);
+        });
+        return true;
+      } catch (error) {
+        appendLog("error", error instanceof Error ? error.message : "abi command failed.");
+        return false;
+      }
+    },
+    [appendLog, config.label, environment]
+  );
 
   const lookupRemoteToken = useCallback(
-    (mintInput: string) => {
+    (mintInput: string): boolean => {
       const trimmed = mintInput.trim();
       if (!trimmed) {
         appendLog(
           "error",
           "Usage: remoteToken <spl-mint>. Example: remoteToken 4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU"
         );
-        return;
+        return false;
       }
 
       let mint: PublicKey;
@@ -307,7 +757,7 @@ export const MainContent: React.FC = () => {
         mint = new PublicKey(trimmed);
       } catch {
         appendLog("error", `Invalid Solana mint address: ${mintInput}`);
-        return;
+        return false;
       }
 
       try {
@@ -323,27 +773,29 @@ export const MainContent: React.FC = () => {
           "system",
           `Use ${remoteToken} as the remote token when deploying the token to Base or bridging it back to Solana.`
         );
+        return true;
       } catch (error) {
         const message =
           error instanceof Error
             ? error.message
             : "Failed to derive remote token.";
         appendLog("error", message);
+        return false;
       }
     },
     [appendLog]
   );
 
   const handleDeploySpl = useCallback(
-    async ({ name, symbol, decimals, supply }: DeploySplPayload) => {
+    async ({ name, symbol, decimals, supply, token2022 }: DeploySplPayload): Promise<boolean> => {
       if (environment !== "devnet") {
         appendLog("error", "deploySpl is only available on Solana devnet.");
-        return;
+        return false;
       }
 
       if (!publicKey || !signTransaction) {
         appendLog("error", "connect a Solana wallet first.");
-        return;
+        return false;
       }
 
       let supplyInBaseUnits: bigint;
@@ -356,13 +808,17 @@ export const MainContent: React.FC = () => {
         const message =
           error instanceof Error ? error.message : "Invalid supply amount.";
         appendLog("error", message);
-        return;
+        return false;
       }
 
+      const tokenProgram = token2022 ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
       const mintKeypair = Keypair.generate();
       const ata = await getAssociatedTokenAddress(
         mintKeypair.publicKey,
-        publicKey
+        publicKey,
+        false,
+        tokenProgram,
+        ASSOCIATED_TOKEN_PROGRAM_ID
       );
 
       const rentLamports = await connection.getMinimumBalanceForRentExemption(
@@ -376,21 +832,21 @@ export const MainContent: React.FC = () => {
           newAccountPubkey: mintKeypair.publicKey,
           space: MINT_SIZE,
           lamports: rentLamports,
-          programId: TOKEN_PROGRAM_ID,
+          programId: tokenProgram,
         }),
         createInitializeMintInstruction(
           mintKeypair.publicKey,
           decimals,
           publicKey,
           publicKey,
-          TOKEN_PROGRAM_ID
+          tokenProgram
         ),
         createAssociatedTokenAccountInstruction(
           publicKey,
           ata,
           publicKey,
           mintKeypair.publicKey,
-          TOKEN_PROGRAM_ID,
+          tokenProgram,
           ASSOCIATED_TOKEN_PROGRAM_ID
         ),
         createMintToInstruction(
@@ -399,32 +855,46 @@ export const MainContent: React.FC = () => {
           publicKey,
           supplyInBaseUnits,
           [],
-          TOKEN_PROGRAM_ID
+          tokenProgram
         )
       );
 
       tx.feePayer = publicKey;
-      const { blockhash } = await connection.getLatestBlockhash();
-      tx.recentBlockhash = blockhash;
 
-      tx.partialSign(mintKeypair);
-      const signed = await signTransaction(tx);
-      const sig = await connection.sendRawTransaction(signed.serialize(), {
-        skipPreflight: false,
-      });
-      await connection.confirmTransaction(sig, "confirmed");
+      // The mint keypair is unused until this lands, so an expired attempt can be rebuilt and re-signed
+      let sig: string | null = null;
+      for (let attempt = 1; !sig; attempt += 1) {
+        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+        tx.recentBlockhash = blockhash;
+        tx.signatures = [];
+        tx.partialSign(mintKeypair);
+        const signed = await signTransaction(tx);
+        try {
+          sig = await transactionSender.sendAndConfirm(connection, signed, { lastValidBlockHeight });
+        } catch (error) {
+          if (!(error instanceof TransactionExpiredBlockheightExceededError) || attempt >= 2) {
+            throw error;
+          }
+          appendLog("system", "deploySpl transaction expired before landing; approve it again with a fresh blockhash.");
+        }
+      }
 
+      terminalVariables.setBuiltin("LAST_MINT", mintKeypair.publicKey.toBase58());
+      terminalVariables.setBuiltin("LAST_SIG", sig);
       const explorer = `${config.solana.blockExplorer}/tx/${sig}${
         config.solana.explorerTxSuffix ?? ""
       }`;
       appendLog(
         "success",
-        `deploySpl success :: ${name} (${symbol}) :: mint=${mintKeypair.publicKey.toBase58()} :: supply=${supply} ${symbol} :: ${explorer}`
+        `deploySpl success :: ${name} (${symbol}) :: mint=${mintKeypair.publicKey.toBase58()} :: supply=${supply} ${symbol}${
+          token2022 ? " :: Token-2022" : ""
+        } :: ${explorer}`
       );
       appendLog(
         "system",
         `Note: name/symbol are off-chain metadata; on-chain mint + decimals are set. ATA: ${ata.toBase58()}`
       );
+      return true;
     },
     [
       appendLog,
@@ -438,20 +908,20 @@ export const MainContent: React.FC = () => {
   );
 
   const handleFaucet = useCallback(
-    async (asset: string) => {
+    async (asset: string): Promise<boolean> => {
       if (asset !== "sol") {
         appendLog("error", "Faucet command rejected: only SOL is supported.");
-        return;
+        return false;
       }
 
       if (environment !== "devnet") {
         appendLog("error", "Faucet command rejected: available only on Solana Devnet.");
-        return;
+        return false;
       }
 
       if (!publicKey) {
         appendLog("error", "Faucet command rejected: wallet not connected.");
-        return;
+        return false;
       }
 
       appendLog("system", "requesting 0.00125 SOL from CDP faucet...");
@@ -474,10 +944,12 @@ export const MainContent: React.FC = () => {
             config.solana.explorerTxSuffix ?? ""
           }`
         );
+        return true;
       } catch (error) {
         const message =
           error instanceof Error ? error.message : "SOL faucet request failed.";
         appendLog("error", message);
+        return false;
       }
     },
     [appendLog, config.solana, environment, publicKey]
@@ -490,78 +962,12 @@ export const MainContent: React.FC = () => {
       args: string[] = [],
       value?: string
     ) => {
-      const parsedSelector = selector.trim();
-      let fnName = "customCall";
-      let params = "";
-
-      const functionPattern =
-        /^function\s*(?:([A-Za-z0-9_]+)\s*)?\((.*)\)$/;
-      const namedPattern = /^([A-Za-z0-9_]+)\((.*)\)$/;
-
-      const functionMatch = parsedSelector.match(functionPattern);
-      if (functionMatch) {
-        fnName = functionMatch[1] && functionMatch[1]!.length > 0 ? functionMatch[1]! : fnName;
-        params = functionMatch[2] ?? "";
-      } else {
-        const namedMatch = parsedSelector.match(namedPattern);
-        if (!namedMatch) {
-          throw new Error(
-            'call selector must look like transfer(type1,type2,...) or function transfer(type1,type2,...)'
-          );
-        }
-        fnName = namedMatch[1];
-        params = namedMatch[2];
-      }
-
-      const types = params
-        .split(",")
-        .map((t) => t.trim())
-        .filter(Boolean);
-
-      if (types.length !== args.length) {
-        throw new Error(
-          "number of call args must match function selector inputs."
-        );
-      }
-      const abiItem = {
-        name: fnName,
-        type: "function" as const,
-        stateMutability: value ? "payable" : "nonpayable",
-        inputs: types.map((type, idx) => ({ name: `arg${idx}`, type })),
-        outputs: [],
-      };
-      const parsedArgs = args.map((arg, idx) => {
-        const type = types[idx];
-        if (type === "address") {
-          if (!/^0x[a-fA-F0-9]{40}$/.test(arg)) {
-            throw new Error(`arg ${idx + 1} must be a valid 0x address.`);
-          }
-          return arg as `0x${string}`;
-        }
-        if (type.startsWith("uint") || type.startsWith("int")) {
-          if (!/^\d+$/.test(arg)) {
-            throw new Error(`arg ${idx + 1} must be numeric for ${type}.`);
-          }
-          return BigInt(arg);
-        }
-        if (type === "bytes" || type.startsWith("bytes")) {
-          if (!/^0x[0-9a-fA-F]*$/.test(arg)) {
-            throw new Error(`arg ${idx + 1} must be hex for ${type}.`);
-          }
-          return arg as `0x${string}`;
-        }
-        return arg;
-      });
-      const data = encodeFunctionData({
-        abi: [abiItem],
-        functionName: fnName,
-        args: parsedArgs,
-      });
-      return {
-        type: "call" as const,
-        target: contract,
-        value,
-        data,
+      const data = encodeFunctionCall(selector, args);
+      return {
+        type: "call" as const,
+        target: contract,
+        value,
+        data,
       };
     },
     []
@@ -597,30 +1003,41 @@ export const MainContent: React.FC = () => {
     [buildBuilderHookData]
   );
 
-  const buildMulticall = useCallback(
-    (builder: BaseContractCall, userCall: BaseContractCall): BaseContractCall => {
-      const data = encodeFunctionData({
-        abi: MULTICALL_ABI,
-        functionName: "multicall",
-        args: [
-          [
-            { target: builder.target! as `0x${string}`, callData: builder.data! as `0x${string}` },
-            { target: userCall.target! as `0x${string}`, callData: userCall.data! as `0x${string}` },
-          ],
-        ],
-      });
+  const buildMulticall = useCallback((entries: StagedCall[]): BaseContractCall => {
+    const calls = entries.map(({ call, meta }) => {
+      if (call.type !== "call" || !call.target) {
+        throw new Error(`only plain calls can be batched, not ${call.type}.`);
+      }
+      // A delegatecall frame cannot receive value, and aggregate3Value reverts unless
+      // msg.value equals the summed per-call values, so every batched call must send 0.
+      if (call.value && parseUnits(call.value, 18) > BigInt(0)) {
+        throw new Error(
+          `--value is not supported when batching calls (${meta.contract} ${meta.selector}). Bridge it as a single call instead.`
+        );
+      }
       return {
-        type: "delegatecall",
-        target: MULTICALL_ADDRESS,
-        value: "0",
-        data,
+        target: call.target as `0x${string}`,
+        allowFailure: !!meta.allowFailure,
+        value: BigInt(0),
+        callData: (call.data ?? "0x") as `0x${string}`,
       };
-    },
-    []
-  );
+    });
+    const data = encodeFunctionData({
+      abi: MULTICALL_ABI,
+      functionName: "aggregate3Value",
+      args: [calls],
+    });
+    // Delegatecall so each call runs with the Twin as msg.sender
+    return {
+      type: "delegatecall",
+      target: MULTICALL_ADDRESS,
+      value: "0",
+      data,
+    };
+  }, []);
 
   const queueBridge = useCallback(
-    (payload: BridgeCommandPayload): BridgeStage | null => {
+    async (payload: BridgeCommandPayload): Promise<BridgeStage | null> => {
       const overrides: BridgeAssetOverrides = {};
       if (payload.flags.mint) {
         overrides.mint = payload.flags.mint;
@@ -635,21 +1052,117 @@ export const MainContent: React.FC = () => {
       const normalizedOverrides =
         Object.keys(overrides).length > 0 ? overrides : undefined;
 
-      let callOption: BaseContractCall | null = null;
-      if (payload.flags.callContract && payload.flags.callSelector) {
+      // Multisig mode: the vault bridges, so its Twin (not the wallet's) runs the attached calls
+      let vault: StagedVault | undefined;
+      if (payload.flags.squads) {
         try {
-          callOption = encodeCall(
-            payload.flags.callContract,
-            payload.flags.callSelector,
-            payload.flags.callArgs,
-            payload.flags.callValue
+          const info = await solanaBridge.getMultisigVault(
+            new PublicKey(payload.flags.squads),
+            payload.flags.vaultIndex ?? 0
+          );
+          let twin: string | null = null;
+          try {
+            twin = await fetchTwinAddress(info.vault);
+          } catch (error) {
+            console.warn("Failed to resolve vault twin address", error);
+          }
+          vault = { ...info, twin };
+        } catch (error) {
+          appendLog(
+            "error",
+            error instanceof Error ? error.message : "Unable to load Squads multisig."
           );
-          setPendingCallMeta({
-            contract: payload.flags.callContract,
-            selector: payload.flags.callSelector,
-            args: payload.flags.callArgs ?? [],
+          return null;
+        }
+      }
+      const senderTwin = vault ? vault.twin : twinAddress;
+
+      const stagedCalls: StagedCall[] = [];
+      if (payload.flags.calls) {
+        try {
+          payload.flags.calls.forEach((spec) => {
+            const resolved = spec.selector
+              ? { contract: spec.target, selector: spec.selector }
+              : abiRegistry.resolveCall(environment, spec.target, spec.args.length);
+            stagedCalls.push({
+              call: encodeCall(resolved.contract, resolved.selector, spec.args, spec.value),
+              meta: {
+                contract: resolved.contract,
+                selector: resolved.selector,
+                args: spec.args,
+                value: spec.value,
+                allowFailure: spec.allowFailure,
+              },
+            });
+          });
+        } catch (error) {
+          appendLog(
+            "error",
+            error instanceof Error ? error.message : "Unable to resolve Base contract call."
+          );
+          return null;
+        }
+      } else if (payload.flags.deploy) {
+        try {
+          const deployment = await contractDeployer.prepare({
+            source: payload.flags.deploy,
+            salt: payload.flags.salt,
+            ctorArgs: payload.flags.ctorArgs,
             value: payload.flags.callValue,
           });
+          appendLog(
+            "system",
+            `deploy payload :: ${deployment.call.type} with ${(deployment.initCode.length - 2) / 2} bytes of init code${
+              deployment.salt ? ` (salt ${deployment.salt})` : ""
+            }`
+          );
+
+          let predictedAddress: string | null = null;
+          if (senderTwin) {
+            const predicted = await contractDeployer.predictAddress(deployment, senderTwin);
+            predictedAddress = predicted.address;
+            appendLog(
+              "system",
+              `predicted contract address :: ${predicted.address}${
+                predicted.nonce !== undefined ? ` (Twin nonce ${predicted.nonce.toString()}; shifts if another Twin deploy lands first)` : ""
+              }`
+            );
+          } else {
+            appendLog("system", "Twin not resolved yet; contract address prediction skipped.");
+          }
+
+          stagedCalls.push({
+            call: deployment.call,
+            meta: {
+              contract: predictedAddress ?? "new contract",
+              selector: `${deployment.call.type} ${deployment.constructorSignature ?? "constructor()"}`,
+              args: payload.flags.ctorArgs ?? [],
+              value: payload.flags.callValue,
+            },
+          });
+        } catch (error) {
+          appendLog(
+            "error",
+            error instanceof Error ? error.message : "Unable to build contract deployment."
+          );
+          return null;
+        }
+      } else if (payload.flags.callContract && payload.flags.callSelector) {
+        try {
+          stagedCalls.push({
+            call: encodeCall(
+              payload.flags.callContract,
+              payload.flags.callSelector,
+              payload.flags.callArgs,
+              payload.flags.callValue
+            ),
+            meta: {
+              contract: payload.flags.callContract,
+              selector: payload.flags.callSelector,
+              args: payload.flags.callArgs ?? [],
+              value: payload.flags.callValue,
+            },
+          });
         } catch (error) {
           appendLog(
             "error",
@@ -659,62 +1172,316 @@ export const MainContent: React.FC = () => {
           );
           return null;
         }
-      } else {
-        setPendingCallMeta(null);
       }
 
       // Builder code attachment (Flywheel send on Base)
       if (payload.flags.withBc) {
+        if (payload.flags.deploy) {
+          appendLog("error", "--with-bc cannot be combined with --deploy.");
+          return null;
+        }
         const feeBps = typeof payload.flags.bcFee === "number" ? payload.flags.bcFee : 0;
         if (!Number.isInteger(feeBps) || feeBps < 0 || feeBps > 255) {
           appendLog("error", "bc-fee must be an integer between 0 and 255 (uint8).");
           return null;
         }
         const remoteToken = payload.flags.remote ?? config.base.wrappedSOL;
-        const builderCall = buildBuilderCall(payload.destination, payload.flags.withBc, feeBps, remoteToken);
-        callOption = callOption ? buildMulticall(builderCall, callOption) : builderCall;
-
-        setPendingCallMeta({
-          contract: FLYWHEEL_ADDRESS,
-          selector: "send(address,address,bytes)",
-          args: [BRIDGE_CAMPAIGN_ADDRESS, remoteToken, "<hookData>"],
-          value: "0",
+        stagedCalls.unshift({
+          call: buildBuilderCall(payload.destination, payload.flags.withBc, feeBps, remoteToken),
+          meta: {
+            contract: FLYWHEEL_ADDRESS,
+            selector: "send(address,address,bytes)",
+            args: [BRIDGE_CAMPAIGN_ADDRESS, remoteToken, "<hookData>"],
+            value: "0",
+          },
         });
       }
 
+      // A single call goes straight to the Twin; anything more is batched through Multicall3
+      let callOption: BaseContractCall | null = null;
+      if (stagedCalls.length === 1 && !stagedCalls[0].meta.allowFailure) {
+        callOption = stagedCalls[0].call;
+      } else if (stagedCalls.length > 0) {
+        try {
+          callOption = buildMulticall(stagedCalls);
+        } catch (error) {
+          appendLog(
+            "error",
+            error instanceof Error ? error.message : "Unable to batch Base contract calls."
+          );
+          return null;
+        }
+      }
+
+      // Fee inputs known at staging time; `--gas-limit auto` is only estimated on execute
+      let microLamports: bigint | undefined;
+      if (payload.flags.priorityFee === "auto") {
+        microLamports = await solanaBridge.estimatePriorityFee().catch(() => BigInt(0));
+      } else if (payload.flags.priorityFee) {
+        microLamports = BigInt(payload.flags.priorityFee);
+      }
+      const feeOptions: BridgeFeeEstimateOptions = {
+        gasLimit:
+          payload.flags.gasLimit && payload.flags.gasLimit !== "auto" ? BigInt(payload.flags.gasLimit) : undefined,
+        callDataLength: callOption?.data ? (callOption.data.length - 2) / 2 : 0,
+        computeBudget: { unitLimit: payload.flags.cuLimit, microLamports },
+      };
+
+      if (isAmountShorthand(payload.amount)) {
+        const owner = vault?.vault ?? publicKey;
+        if (!owner) {
+          appendLog("error", `connect a Solana wallet to resolve "${payload.amount}".`);
+          return null;
+        }
+        try {
+          const resolved = await solanaBridge.resolveAmount({
+            owner,
+            amount: payload.amount,
+            assetSymbol: payload.asset,
+            overrides: normalizedOverrides,
+            fee: feeOptions,
+          });
+          appendLog(
+            "system",
+            `amount ${payload.amount} :: ${resolved.amount} ${payload.asset.toUpperCase()} of ${formatUnits(
+              resolved.balance,
+              resolved.decimals
+            )}${
+              resolved.reserved !== undefined
+                ? ` (keeping ${formatUnits(resolved.reserved, 9)} SOL for fees, message rent and the account minimum)`
+                : ""
+            }`
+          );
+          // Stage the exact amount so execution, dry runs and exports bridge what was echoed
+          payload = { ...payload, amount: resolved.amount };
+        } catch (error) {
+          appendLog(
+            "error",
+            error instanceof Error ? error.message : `Unable to resolve amount "${payload.amount}".`
+          );
+          return null;
+        }
+      }
+
+      setPendingCallMeta(stagedCalls.length ? stagedCalls.map((entry) => entry.meta) : null);
+
       setPendingCall(callOption);
 
       setPendingBridge(payload);
+      setRecentDestinations((prev) =>
+        [payload.destination, ...prev.filter((entry) => entry !== payload.destination)].slice(0, 10)
+      );
       setBridgeOverrides(normalizedOverrides);
+      setStagedVault(vault ?? null);
 
       appendLog(
         "system",
         `bridge staged [${config.label}] :: ${payload.amount} ${payload.asset.toUpperCase()} → ${payload.destination}`
       );
+      if (vault) {
+        appendLog(
+          "system",
+          `squads vault :: ${vault.vault.toBase58()} (multisig ${vault.multisig.toBase58()}, vault ${vault.vaultIndex}) · threshold ${vault.threshold}/${vault.members} · proposal #${vault.transactionIndex.toString()}`
+        );
+        appendLog("system", `vault Twin :: ${vault.twin ?? "unresolved"}`);
+      }
 
       if (callOption) {
-        appendLog("system", `attached call`);
+        appendLog(
+          "system",
+          stagedCalls.length > 1
+            ? `attached ${stagedCalls.length} calls (multicall delegatecall)`
+            : `attached call`
+        );
+      }
+
+      // Shown with the staged bridge until it is sent or cleared
+      try {
+        const fee = await solanaBridge.estimateBridgeFee({
+          ...feeOptions,
+          assetType: payload.asset === "sol" ? "sol" : "spl",
+        });
+        setStagedFee(fee);
+        appendLog(
+          "system",
+          `estimated fees :: ${formatFee(fee)} (relay gas + rent + signature${
+            fee.priorityFee > BigInt(0) ? " + priority" : ""
+          })`
+        );
+      } catch (error) {
+        setStagedFee(null);
+        console.warn("[terminally-onchain] fee estimate unavailable", error);
       }
       return {
         payload,
         overrides: normalizedOverrides,
         call: callOption,
+        vault,
       };
     },
-    [appendLog, buildBuilderCall, buildMulticall, config.base.wrappedSOL, config.label, encodeCall]
+    [
+      appendLog,
+      buildBuilderCall,
+      buildMulticall,
+      config.base.wrappedSOL,
+      config.label,
+      encodeCall,
+      environment,
+      fetchTwinAddress,
+      formatFee,
+      publicKey,
+      twinAddress,
+    ]
+  );
+
+  const printTransactionSize = useCallback(
+    (size: TransactionSizeReport) => {
+      appendLog(
+        "system",
+        `transaction size :: ${size.bytes}/${size.limit} bytes (${size.remaining} bytes left for call data)${
+          size.lookupTable ? ` · lookup table ${size.lookupTable.toBase58()}` : ""
+        }`
+      );
+    },
+    [appendLog]
+  );
+
+  const printSimulation = useCallback(
+    (result: BridgeSimulationResult) => {
+      appendLog(
+        result.success ? "success" : "error",
+        `simulation ${result.success ? "succeeded" : `failed: ${result.error}`} :: ${
+          result.unitsConsumed ?? "?"
+        } compute units`
+      );
+      printTransactionSize(result.size);
+      if (!result.success) {
+        const decoded = programErrorDecoder.decode(result.error, config.solana, result.logs);
+        if (decoded) {
+          appendLog("error", decoded.message, decoded.logs);
+        }
+      }
+
+      appendLog("system", "accounts:");
+      result.accounts.forEach(({ pubkey, isSigner, isWritable, lookup }, index) => {
+        const flags = [isSigner ? "signer" : null, isWritable ? "writable" : null, lookup ? "lookup" : null]
+          .filter(Boolean)
+          .join(", ");
+        appendLog("system", ` [${index}] ${pubkey.toBase58()}${flags ? ` (${flags})` : ""}`);
+      });
+
+      appendLog("system", "instructions:");
+      result.instructions.forEach(({ programId, dataLength, decoded }, index) => {
+        appendLog("system", ` #${index} ${programId.toBase58()} :: ${dataLength} bytes`);
+        if (!decoded) {
+          return;
+        }
+        if (decoded.kind === "pay_for_relay") {
+          appendLog("system", `   pay_for_relay salt=${decoded.salt} gasLimit=${decoded.gasLimit.toString()}`);
+          return;
+        }
+        if (decoded.kind === "bridge_call") {
+          appendLog("system", `   bridge_call salt=${decoded.salt}`);
+        } else {
+          appendLog(
+            "system",
+            `   ${decoded.kind} salt=${decoded.salt} to=${decoded.to} amount=${decoded.amount.toString()}${
+              decoded.remoteToken ? ` remoteToken=${decoded.remoteToken}` : ""
+            }`
+          );
+        }
+        if (decoded.call) {
+          appendLog(
+            "system",
+            `   call ${decoded.call.type} target=${decoded.call.target ?? "-"} value=${decoded.call.value} data=${decoded.call.data}`
+          );
+        }
+      });
+
+      if (result.logs.length) {
+        appendLog("system", "program logs:");
+        result.logs.forEach((line) => appendLog("system", ` ${line}`));
+      }
+    },
+    [appendLog, config.solana, printTransactionSize]
+  );
+
+  // Base gas limit and Solana compute budget requested by a staged bridge's flags
+  const resolveBridgeSettings = useCallback(
+    async (payload: BridgeCommandPayload, call: BaseContractCall | null, senderTwin: string | null) => {
+      let gasLimit: bigint | undefined;
+      if (payload.flags.gasLimit === "auto") {
+        try {
+          if (!call || !senderTwin) {
+            throw new Error("needs an attached call and a resolved Twin");
+          }
+          gasLimit = await solanaBridge.estimateCallGasLimit(call, senderTwin);
+          appendLog("system", `estimated Base gas limit :: ${gasLimit.toString()}`);
+        } catch (error) {
+          appendLog(
+            "error",
+            `gas estimate unavailable (${
+              error instanceof Error ? error.message : "unknown error"
+            }); using default ${DEFAULT_GAS_LIMIT.toString()}.`
+          );
+        }
+      } else if (payload.flags.gasLimit) {
+        gasLimit = BigInt(payload.flags.gasLimit);
+      }
+
+      let computeBudget: ComputeBudgetSettings | undefined;
+      if (payload.flags.priorityFee || payload.flags.cuLimit !== undefined) {
+        computeBudget = { unitLimit: payload.flags.cuLimit };
+        if (payload.flags.priorityFee === "auto") {
+          try {
+            computeBudget.microLamports = await solanaBridge.estimatePriorityFee();
+            appendLog(
+              "system",
+              `priority fee (auto) :: ${computeBudget.microLamports.toString()} micro-lamports/CU`
+            );
+          } catch (error) {
+            appendLog(
+              "system",
+              `priority fee estimate unavailable (${
+                error instanceof Error ? error.message : "unknown error"
+              }); sending without one.`
+            );
+          }
+        } else if (payload.flags.priorityFee) {
+          computeBudget.microLamports = BigInt(payload.flags.priorityFee);
+        }
+      }
+
+      return { gasLimit, computeBudget };
+    },
+    [appendLog]
+  );
+
+  // Transfer fees, hooks and similar Token-2022 extensions that change what arrives on Base
+  const warnTokenExtensions = useCallback(
+    async (payload: BridgeCommandPayload, overrides?: BridgeAssetOverrides) => {
+      try {
+        const extensions = await solanaBridge.inspectTokenExtensions(payload.asset, payload.amount, overrides);
+        extensions?.warnings.forEach((warning) => appendLog("error", `warning: ${warning}`));
+      } catch (error) {
+        console.warn("[terminally-onchain] token extension check unavailable", error);
+      }
+    },
+    [appendLog]
   );
 
   const executeQueuedBridge = useCallback(
-    async (stage?: BridgeStage) => {
-      if (!publicKey || !signTransaction) {
+    async (stage?: BridgeStage): Promise<boolean> => {
+      const bridgePayload = stage?.payload ?? pendingBridge;
+      // Exports only need the fee payer's address, not a signing wallet
+      if (!publicKey || (!signTransaction && !bridgePayload?.flags.exportTx)) {
         appendLog("error", "Execute blocked: wallet not connected.");
-        return;
+        return false;
       }
 
-      const bridgePayload = stage?.payload ?? pendingBridge;
       if (!bridgePayload) {
         appendLog("error", "Execute blocked: no bridge command queued.");
-        return;
+        return false;
       }
 
       const overrides = stage?.overrides ?? bridgeOverrides;
@@ -724,11 +1491,98 @@ export const MainContent: React.FC = () => {
           ? BRIDGE_CAMPAIGN_ADDRESS
           : bridgePayload.destination;
       console.log("destinationForBridge", destinationForBridge, "withBc", bridgePayload.flags.withBc);
+      const vault = stage ? stage.vault : stagedVault ?? undefined;
+      const multisig = bridgePayload.flags.squads
+        ? { address: new PublicKey(bridgePayload.flags.squads), vaultIndex: bridgePayload.flags.vaultIndex }
+        : undefined;
+      const senderTwin = multisig ? vault?.twin ?? null : twinAddress;
 
       setIsExecuting(true);
-      appendLog("system", "executing bridge workflow...");
+
+      const { gasLimit, computeBudget } = await resolveBridgeSettings(bridgePayload, callOption, senderTwin);
+
+      await warnTokenExtensions(bridgePayload, overrides);
+
+      if (bridgePayload.flags.exportTx) {
+        appendLog("system", "building unsigned bridge transaction for export (nothing is signed)...");
+        try {
+          const { base64, summary } = await solanaBridge.exportBridge({
+            walletAddress: publicKey,
+            amount: bridgePayload.amount,
+            assetSymbol: bridgePayload.asset,
+            destinationAddress: destinationForBridge,
+            overrides,
+            callOptions: callOption ?? undefined,
+            gasLimit,
+            computeBudget,
+            multisig,
+          });
+          appendLog(
+            "success",
+            `unsigned bridge transaction (base64, ${summary.bytes} bytes) :: ${base64}`,
+            JSON.stringify(summary, null, 2).split("\n")
+          );
+          try {
+            await navigator.clipboard.writeText(base64);
+            appendLog("system", "base64 copied to clipboard.");
+          } catch {
+            // Clipboard access is optional; the base64 is in the log
+          }
+          appendLog(
+            "system",
+            `sign as ${summary.feePayer} before block height ${summary.lastValidBlockHeight} (about a minute), then run 'submit <signed-base64>'.`
+          );
+          return true;
+        } catch (error) {
+          appendTxError(error, "bridge export failed.");
+        } finally {
+          setPendingBridge(null);
+          setBridgeOverrides(undefined);
+          setPendingCall(null);
+          setPendingCallMeta(null);
+          setIsExecuting(false);
+        }
+        return false;
+      }
+
+      if (!signTransaction) {
+        appendLog("error", "Execute blocked: wallet cannot sign transactions.");
+        setIsExecuting(false);
+        return false;
+      }
+
+      if (bridgePayload.flags.dryRun) {
+        appendLog("system", "simulating bridge (dry run, nothing is signed)...");
+        try {
+          const result = await solanaBridge.simulateBridge({
+            walletAddress: publicKey,
+            amount: bridgePayload.amount,
+            assetSymbol: bridgePayload.asset,
+            destinationAddress: destinationForBridge,
+            overrides,
+            callOptions: callOption ?? undefined,
+            gasLimit,
+            computeBudget,
+            multisig,
+          });
+          printSimulation(result);
+          return result.success;
+        } catch (error) {
+          appendTxError(error, "bridge simulation failed.");
+        } finally {
+          setPendingBridge(null);
+          setBridgeOverrides(undefined);
+          setPendingCall(null);
+          setPendingCallMeta(null);
+          setIsExecuting(false);
+        }
+        return false;
+      }
+
+      appendLog("system", multisig ? "creating Squads proposal for the bridge..." : "executing bridge workflow...");
 
       try {
+        let prepared: PreparedBridge | undefined;
         const signature = await solanaBridge.bridge({
           walletAddress: publicKey,
           amount: bridgePayload.amount,
@@ -736,19 +1590,59 @@ export const MainContent: React.FC = () => {
           destinationAddress: destinationForBridge,
           overrides,
           callOptions: callOption ?? undefined,
+          gasLimit,
+          computeBudget,
+          multisig,
           signTransaction,
+          onPrepared: (compiled) => {
+            prepared = compiled;
+            printTransactionSize(compiled.size);
+          },
         });
 
-        appendLog("success", `Bridge submitted :: ${signature}`);
-        setRecentSignatures((prev) => [{ signature, environment }, ...prev].slice(0, 8));
+        terminalVariables.setBuiltin("LAST_SIG", signature);
+        const proposal = prepared?.proposal;
+        if (prepared && proposal) {
+          const { vault: proposalVault } = proposal;
+          appendLog(
+            "success",
+            `Squads proposal #${proposalVault.transactionIndex.toString()} created :: ${signature}`
+          );
+          appendLog(
+            "system",
+            `proposal ${proposal.proposal.toBase58()} needs ${proposalVault.threshold}/${proposalVault.members} approvals${
+              proposal.approved ? " (yours included)" : ""
+            }; the vault bridges once a member executes it in Squads.`
+          );
+          appendLog(
+            "system",
+            `bridge salt ${prepared.message.salt} · outgoing message ${prepared.message.outgoingMessage.toBase58()} (created on execution)`
+          );
+        } else {
+          appendLog("success", `Bridge submitted :: ${signature}`);
+        }
+        const tracked = bridgeTracker.find(signature);
+        if (tracked) {
+          appendLog("system", `tracking salt ${tracked.salt} — run 'status ${signature}' for the timeline.`);
+          watchBridge(tracked);
+        }
         setPendingBridge(null);
         setBridgeOverrides(undefined);
         setPendingCall(null);
         setPendingCallMeta(null);
+        return true;
       } catch (error) {
         const message =
           error instanceof Error ? error.message : "bridge transaction failed.";
-        appendLog("error", message);
+        if (error instanceof TransactionExpiredBlockheightExceededError) {
+          appendLog("error", `bridge transaction expired before it landed :: ${error.signature}`);
+          appendLog(
+            "system",
+            "The bridge is still staged; press Execute with an empty terminal to re-sign it with a fresh blockhash."
+          );
+          return false;
+        }
+        appendTxError(error, "bridge transaction failed.");
         if (message.includes("User rejected the request")) {
           setPendingBridge(null);
           setBridgeOverrides(undefined);
@@ -762,20 +1656,392 @@ export const MainContent: React.FC = () => {
       } finally {
         setIsExecuting(false);
       }
+      return false;
     },
     [
       appendLog,
+      appendTxError,
       bridgeOverrides,
-      environment,
+      printSimulation,
+      printTransactionSize,
       pendingBridge,
       pendingCall,
       publicKey,
+      resolveBridgeSettings,
+      signTransaction,
+      stagedVault,
+      twinAddress,
+      warnTokenExtensions,
+      watchBridge,
+    ]
+  );
+
+  /**
+   * Send several plain bridges (no dry run, export or multisig) packed into as few transactions
+   * as fit, signed in one wallet prompt when the wallet supports signAllTransactions.
+   */
+  const executePackedBridges = useCallback(
+    async (stages: BridgeStage[]): Promise<BridgeRunSummary[]> => {
+      if (!publicKey || !signTransaction) {
+        appendLog("error", "Execute blocked: wallet not connected.");
+        return stages.map((stage) => ({ stage, status: "failed" }));
+      }
+
+      setIsExecuting(true);
+      try {
+        const bridges: BridgeBatchItem[] = [];
+        for (const { payload, overrides, call } of stages) {
+          const { gasLimit, computeBudget } = await resolveBridgeSettings(payload, call, twinAddress);
+          await warnTokenExtensions(payload, overrides);
+          bridges.push({
+            amount: payload.amount,
+            assetSymbol: payload.asset,
+            destinationAddress:
+              typeof payload.flags.withBc === "string" ? BRIDGE_CAMPAIGN_ADDRESS : payload.destination,
+            overrides,
+            callOptions: call ?? undefined,
+            gasLimit,
+            computeBudget,
+          });
+        }
+
+        appendLog("system", `executing ${stages.length} bridges...`);
+        const results = await solanaBridge.bridgeMany({
+          walletAddress: publicKey,
+          bridges,
+          signTransaction,
+          signAllTransactions,
+          onPacked: (packed) => {
+            appendLog(
+              "system",
+              `packed into ${packed.length} transaction(s) :: ${packed
+                .map((transaction) => `${transaction.bridges.length} bridge(s), ${transaction.size.bytes} bytes`)
+                .join(" · ")}${signAllTransactions && packed.length > 1 ? " — approve them in one wallet prompt" : ""}`
+            );
+          },
+        });
+
+        // Bridges packed into the same transaction share its error; log it once
+        const logged = new Set<unknown>();
+        return results.map(({ signature, message, transaction, error, skipped }, index): BridgeRunSummary => {
+          const stage = stages[index];
+          if (skipped) {
+            return { stage, status: "skipped" };
+          }
+          if (!signature) {
+            if (!logged.has(error)) {
+              logged.add(error);
+              appendTxError(error, "bridge transaction failed.");
+            }
+            return {
+              stage,
+              status: "failed",
+              detail: error instanceof Error ? error.message.split("\n")[0] : undefined,
+            };
+          }
+          terminalVariables.setBuiltin("LAST_SIG", signature);
+          const tracked = message ? bridgeTracker.find(message.salt) : undefined;
+          if (tracked) {
+            watchBridge(tracked);
+          }
+          return {
+            stage,
+            status: "sent",
+            signature,
+            detail: transaction !== undefined ? `tx ${transaction + 1}` : undefined,
+          };
+        });
+      } catch (error) {
+        appendTxError(error, "bridge transactions failed.");
+        return stages.map((stage) => ({ stage, status: "failed" }));
+      } finally {
+        setPendingBridge(null);
+        setBridgeOverrides(undefined);
+        setPendingCall(null);
+        setPendingCallMeta(null);
+        setIsExecuting(false);
+      }
+    },
+    [
+      appendLog,
+      appendTxError,
+      publicKey,
+      resolveBridgeSettings,
+      signAllTransactions,
       signTransaction,
+      twinAddress,
+      warnTokenExtensions,
+      watchBridge,
     ]
   );
 
+  const printBridgeSummary = useCallback(
+    (rows: BridgeRunSummary[]) => {
+      const sent = rows.filter((row) => row.status !== "failed" && row.status !== "skipped").length;
+      appendLog("system", `bridge summary :: ${sent}/${rows.length} ok`);
+      rows.forEach(({ stage, status, signature, detail }, index) => {
+        const { amount, asset, destination } = stage.payload;
+        const to = destination.length > 14 ? `${destination.slice(0, 6)}…${destination.slice(-4)}` : destination;
+        appendLog(
+          status === "failed" ? "error" : "system",
+          ` ${String(index + 1).padStart(2)}. ${`${amount} ${asset.toUpperCase()}`.padEnd(18)} → ${to.padEnd(13)} ${status.padEnd(9)}${
+            signature ? ` ${signature}` : ""
+          }${detail ? ` (${detail})` : ""}`
+        );
+      });
+    },
+    [appendLog]
+  );
+
+  /**
+   * Run every bridge a batch staged, in order. Neighbouring plain bridges are packed together;
+   * dry runs, exports and multisig proposals run one at a time. The first failure skips the rest.
+   */
+  const executeStagedBridges = useCallback(
+    async (stages: BridgeStage[]): Promise<BridgeRunSummary[]> => {
+      const isPackable = ({ payload: { flags } }: BridgeStage) => !flags.dryRun && !flags.exportTx && !flags.squads;
+      const rows: BridgeRunSummary[] = [];
+      let index = 0;
+      while (index < stages.length) {
+        if (rows.some((row) => row.status === "failed")) {
+          rows.push({ stage: stages[index], status: "skipped" });
+          index += 1;
+          continue;
+        }
+
+        let end = index;
+        while (end < stages.length && isPackable(stages[end])) {
+          end += 1;
+        }
+        if (end - index > 1) {
+          rows.push(...(await executePackedBridges(stages.slice(index, end))));
+          index = end;
+          continue;
+        }
+
+        const stage = stages[index];
+        const { flags } = stage.payload;
+        const ok = await executeQueuedBridge(stage);
+        const status: BridgeRunSummary["status"] = !ok
+          ? "failed"
+          : flags.exportTx
+            ? "exported"
+            : flags.dryRun
+              ? "simulated"
+              : flags.squads
+                ? "proposed"
+                : "sent";
+        rows.push({
+          stage,
+          status,
+          signature: status === "sent" || status === "proposed" ? terminalVariables.get("LAST_SIG") : undefined,
+        });
+        index += 1;
+      }
+
+      printBridgeSummary(rows);
+      return rows;
+    },
+    [executePackedBridges, executeQueuedBridge, printBridgeSummary]
+  );
+
+  const handleWithdraw = useCallback(
+    async (payload: WithdrawCommandPayload): Promise<boolean> => {
+      if (!publicKey || !signTransaction) {
+        appendLog("error", "connect a Solana wallet first.");
+        return false;
+      }
+
+      const overrides: BridgeAssetOverrides = {};
+      if (payload.flags.mint) {
+        overrides.mint = payload.flags.mint;
+      }
+      if (payload.flags.remote) {
+        overrides.remote = payload.flags.remote;
+      }
+      if (typeof payload.flags.decimals === "number") {
+        overrides.decimals = payload.flags.decimals;
+      }
+
+      const source = payload.flags.from ?? "twin";
+      appendLog(
+        "system",
+        `withdraw [${config.label}] :: ${payload.amount} ${payload.asset.toUpperCase()} → ${payload.destination} (from ${source})`
+      );
+
+      let submission: WithdrawSubmission;
+      try {
+        submission = await solanaBridge.withdraw({
+          walletAddress: publicKey,
+          amount: payload.amount,
+          assetSymbol: payload.asset,
+          destinationAddress: payload.destination,
+          source,
+          twinAddress: twinAddress ?? undefined,
+          overrides: Object.keys(overrides).length > 0 ? overrides : undefined,
+          signTransaction,
+        });
+      } catch (error) {
+        appendTxError(error, "withdraw failed.");
+        return false;
+      }
+
+      terminalVariables.setBuiltin("LAST_SIG", submission.signature ?? submission.baseTxHash ?? null);
+      if (submission.signature) {
+        appendLog("success", `Withdraw call sent via Twin :: ${submission.signature}`);
+      }
+      if (submission.baseTxHash) {
+        appendLog(
+          "success",
+          `Withdraw sent on ${config.base.name} :: ${config.base.blockExplorer}/tx/${submission.baseTxHash}`
+        );
+      }
+      appendLog(
+        "system",
+        "tracking withdraw — the message is relayed on Solana once Base output roots are registered (can take a while)."
+      );
+
+      // Tracking runs in the background so the terminal stays usable
+      solanaBridge
+        .trackWithdraw(submission, {
+          walletAddress: publicKey,
+          signTransaction,
+          onProgress: (progress) => {
+            if (progress.stage === "initiated") {
+              appendLog(
+                "system",
+                `withdraw message initiated on Base :: ${progress.message.messageHash}`
+              );
+            } else if (progress.stage === "proven") {
+              appendLog(
+                "system",
+                `withdraw message proven on Solana :: ${progress.incomingMessage.toBase58()} — relaying...`
+              );
+            } else {
+              appendLog(
+                "success",
+                progress.signature
+                  ? `withdraw finalized on Solana :: ${config.solana.blockExplorer}/tx/${progress.signature}${
+                      config.solana.explorerTxSuffix ?? ""
+                    }`
+                  : "withdraw finalized on Solana."
+              );
+            }
+          },
+        })
+        .catch((error) => {
+          appendTxError(error, "withdraw tracking failed.");
+        });
+      return true;
+    },
+    [appendLog, appendTxError, config, publicKey, signTransaction, twinAddress]
+  );
+
+  const handleSubmit = useCallback(
+    async (transaction: string): Promise<boolean> => {
+      appendLog("system", `submitting externally signed transaction to ${config.solana.name}...`);
+      try {
+        const signature = await solanaBridge.submitSigned(transaction);
+        terminalVariables.setBuiltin("LAST_SIG", signature);
+        appendLog("success", `Signed transaction landed :: ${signature}`);
+        const tracked = bridgeTracker.find(signature);
+        if (tracked) {
+          appendLog("system", `tracking salt ${tracked.salt} — run 'status ${signature}' for the timeline.`);
+          watchBridge(tracked);
+        }
+        return true;
+      } catch (error) {
+        if (error instanceof TransactionExpiredBlockheightExceededError) {
+          appendLog("error", "signed transaction expired before it landed; export and sign the bridge again.");
+        } else {
+          appendTxError(error, "submit failed.");
+        }
+        return false;
+      }
+    },
+    [appendLog, appendTxError, config.solana.name, watchBridge]
+  );
+
+  const handleSet = useCallback(
+    (name?: string, value?: string): boolean => {
+      if (name === undefined || value === undefined) {
+        const entries = terminalVariables.entries();
+        if (entries.length === 0) {
+          appendLog("system", "no variables set. Try set DEST 0x..., then use $DEST in commands.");
+          return true;
+        }
+        appendLog("system", "variables:");
+        entries.forEach(([key, entry]) => appendLog("system", ` $${key.padEnd(12)} ${entry}`));
+        return true;
+      }
+
+      try {
+        terminalVariables.set(name, value);
+        appendLog("success", `$${name} = ${value}`);
+        return true;
+      } catch (error) {
+        appendLog("error", error instanceof Error ? error.message : "set failed.");
+        return false;
+      }
+    },
+    [appendLog]
+  );
+
+  const handleSchedule = useCallback(
+    (action: ScheduleCommandAction): boolean => {
+      try {
+        if (action.kind === "add") {
+          if (!publicKey) {
+            appendLog("error", "connect a Solana wallet first; scheduled bridges run for the wallet that added them.");
+            return false;
+          }
+          const job = bridgeScheduler.add(environment, publicKey, action.command, action.intervalMs);
+          appendLog(
+            "success",
+            `scheduled job #${job.id} [${config.label}] :: every ${formatInterval(job.intervalMs)} · first run ${new Date(
+              job.nextRunAt
+            ).toLocaleString()}`
+          );
+          appendLog(
+            "system",
+            "jobs run while this tab is open with the same wallet connected; you confirm each run before signing."
+          );
+          return true;
+        }
+
+        if (action.kind === "rm") {
+          const job = bridgeScheduler.remove(environment, action.id);
+          appendLog("success", `scheduled job #${job.id} removed :: ${job.command}`);
+          return true;
+        }
+
+        const jobs = bridgeScheduler.list(environment);
+        if (jobs.length === 0) {
+          appendLog("system", `no scheduled bridges for ${config.label}. Try schedule add "bridge 0.5 sol 0x..." --every 24h`);
+          return true;
+        }
+        appendLog("system", `scheduled bridges [${config.label}]:`);
+        jobs.forEach((job) => {
+          const owner =
+            publicKey && job.owner === publicKey.toBase58() ? "" : ` · wallet ${job.owner.slice(0, 4)}…${job.owner.slice(-4)}`;
+          appendLog(
+            "system",
+            ` #${job.id} every ${formatInterval(job.intervalMs)} · next ${new Date(job.nextRunAt).toLocaleString()} · last ${
+              job.lastRunAt ? new Date(job.lastRunAt).toLocaleString() : "never"
+            }${owner} :: ${job.command}`
+          );
+        });
+        return true;
+      } catch (error) {
+        appendLog("error", error instanceof Error ? error.message : "schedule command failed.");
+        return false;
+      }
+    },
+    [appendLog, config.label, environment, publicKey]
+  );
+
   const printBalances = useCallback(
-    async (walletAddress: PublicKey) => {
+    async (walletAddress: PublicKey): Promise<boolean> => {
       try {
         const solBalance = await solanaBridge.getSolBalance(walletAddress);
         appendLog("system", `SOL :: ${solBalance.toFixed(6)} (${config.solana.name})`);
@@ -786,7 +2052,7 @@ export const MainContent: React.FC = () => {
             ? error.message
             : "failed to fetch SOL balance."
         );
-        return;
+        return false;
       }
 
       const splAssets = supportedAssets.filter(
@@ -796,8 +2062,15 @@ export const MainContent: React.FC = () => {
       for (const asset of splAssets) {
         try {
           const mint = new PublicKey(asset.mintAddress!);
-          const ata = await getAssociatedTokenAddress(mint, walletAddress);
-          const account = await getAccount(connection, ata);
+          const tokenProgram = await solanaBridge.getTokenProgram(mint);
+          const ata = await getAssociatedTokenAddress(
+            mint,
+            walletAddress,
+            false,
+            tokenProgram,
+            ASSOCIATED_TOKEN_PROGRAM_ID
+          );
+          const account = await getAccount(connection, ata, undefined, tokenProgram);
           const formatted = formatUnits(
             BigInt(account.amount.toString()),
             asset.decimals
@@ -810,120 +2083,329 @@ export const MainContent: React.FC = () => {
           );
         }
       }
+      return true;
     },
     [appendLog, config.solana.name, connection, supportedAssets]
   );
 
+  /**
+   * Run a parsed command and report whether it succeeded, so batch scripts can stop on failure.
+   * Bridges are staged and sent by the caller.
+   */
   const executeCommand = useCallback(
     async (command: ParsedCommand): Promise<boolean> => {
       switch (command.type) {
         case "help":
           printHelp();
-          return false;
+          return true;
         case "clear":
           setLogEntries([createLog("system", "logs cleared")]);
-          return false;
+          return true;
         case "assets":
           printAssets();
-          return false;
+          return true;
         case "history":
-          printHistory();
-          return false;
+          if (command.kind === "cmd") {
+            printCommandHistory(command.options.limit);
+            return true;
+          }
+          if (!publicKey) {
+            appendLog("error", "connect a Solana wallet first.");
+            return false;
+          }
+          return runWithLock(() => printHistory(publicKey, command.options));
+        case "fee":
+          return runWithLock(() => printFee(command.asset));
+        case "status":
+          return runWithLock(() => printStatus(command.query));
+        case "submit":
+          return runWithLock(() => handleSubmit(command.transaction));
+        case "abi":
+          return runWithLock(() => handleAbi(command.action));
+        case "schedule":
+          return handleSchedule(command.action);
+        case "set":
+          return handleSet(command.name, command.value);
+        case "waitFor":
+          return runWithLock(() => handleWaitFor(command.target, command.stage));
         case "remoteToken":
-          await runWithLock(async () => {
-            await lookupRemoteToken(command.mint);
-          });
-          return false;
+          return lookupRemoteToken(command.mint);
         case "balance":
-    if (!publicKey) {
+          if (!publicKey) {
             appendLog("error", "connect a Solana wallet first.");
             return false;
           }
-          await runWithLock(async () => {
-            await printBalances(publicKey);
-          });
-          return false;
+          return runWithLock(() => printBalances(publicKey));
         case "faucet":
-          await runWithLock(async () => {
-            await handleFaucet(command.asset);
-          });
+          return runWithLock(() => handleFaucet(command.asset));
+        case "deploySpl":
+          return runWithLock(() => handleDeploySpl(command.payload));
+        case "withdraw":
+          return runWithLock(() => handleWithdraw(command.payload));
+        case "error":
+          appendLog("error", command.message);
           return false;
-      case "deploySpl":
-        await runWithLock(async () => {
-          await handleDeploySpl(command.payload);
-        });
-        return false;
         case "bridge":
         case "empty":
         default:
-          return false;
+          return true;
       }
     },
     [
       appendLog,
+      handleAbi,
       handleFaucet,
       handleDeploySpl,
+      handleSchedule,
+      handleSet,
+      handleSubmit,
+      handleWaitFor,
+      handleWithdraw,
       lookupRemoteToken,
       printAssets,
       printHelp,
+      printFee,
       printHistory,
       printBalances,
+      printCommandHistory,
+      printStatus,
       publicKey,
       runWithLock,
     ]
   );
 
+  /**
+   * Run the most overdue scheduled bridge through the same staging path as a typed command,
+   * after the user confirms it. Skipped while anything else is running or staged.
+   */
+  const runScheduledBridge = useCallback(async () => {
+    if (!publicKey || !signTransaction || isLocked || isExecuting || pendingBridge) {
+      return;
+    }
+    const job = bridgeScheduler.nextDue(environment, publicKey);
+    if (!job) {
+      return;
+    }
+    bridgeScheduler.markRun(job.id);
+
+    appendLog("system", `scheduled job #${job.id} due (every ${formatInterval(job.intervalMs)})`);
+    appendLog("command", job.command);
+    const parsed = parseTerminalCommand(job.command, terminalVariables.snapshot());
+    if (parsed.type !== "bridge") {
+      appendLog(
+        "error",
+        `scheduled job #${job.id} is no longer valid: ${
+          parsed.type === "error" ? parsed.message : "not a bridge command"
+        }. Remove it with schedule rm ${job.id}.`
+      );
+      return;
+    }
+
+    await runWithLock(async () => {
+      const stage = await queueBridge(parsed.payload);
+      if (!stage) {
+        return;
+      }
+      if (!window.confirm(`Scheduled bridge #${job.id}:\n${job.command}\n\nSign and send it now?`)) {
+        setPendingBridge(null);
+        setBridgeOverrides(undefined);
+        setPendingCall(null);
+        setPendingCallMeta(null);
+        appendLog(
+          "system",
+          `scheduled job #${job.id} skipped; next run ${new Date(job.nextRunAt).toLocaleString()}.`
+        );
+        return;
+      }
+      await executeQueuedBridge(stage);
+    });
+  }, [
+    appendLog,
+    environment,
+    executeQueuedBridge,
+    isExecuting,
+    isLocked,
+    pendingBridge,
+    publicKey,
+    queueBridge,
+    runWithLock,
+    signTransaction,
+  ]);
+
+  // The poll reads the latest callback so it is not reset on every state change
+  const runScheduledBridgeRef = useRef(runScheduledBridge);
+  runScheduledBridgeRef.current = runScheduledBridge;
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      runScheduledBridgeRef.current().catch((error) =>
+        console.warn("[terminally-onchain] scheduled bridge failed", error)
+      );
+    }, BRIDGE_CONFIG.schedulePollInterval);
+    return () => clearInterval(timer);
+  }, []);
+
   const handleCommandBatchExecute = async () => {
     if (isLocked) {
       appendLog("system", "another command is still running — hold tight.");
       return;
     }
 
-    const commands = commandBatch
-      .split("\n")
-      .map((line) => line.trim())
-      .filter(Boolean);
+    let commands: string[];
+    try {
+      const lines = commandBatch
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith("#"))
+        .map((line) => {
+          // Resolve !! / !n against what was recorded so far, so `!!` on line 2 repeats line 1
+          const parsed = parseTerminalCommand(line);
+          const command =
+            parsed.type === "rerun"
+              ? [commandHistory.resolve(environment, publicKey, parsed.index), parsed.suffix].filter(Boolean).join(" ")
+              : line;
+          if (command !== line) {
+            appendLog("system", `${line} → ${command}`);
+          }
+          commandHistory.record(environment, publicKey, command);
+          return command;
+        });
+      commands = expandCallBlocks(lines);
+    } catch (error) {
+      appendLog("error", error instanceof Error ? error.message : "unable to read batch.");
+      return;
+    }
 
     if (!commands.length) {
+      if (pendingBridge) {
+        // Re-sign the staged bridge, e.g. after its blockhash expired
+        await executeQueuedBridge();
+        return;
+      }
       appendLog("system", "type one or more commands before executing.");
       return;
     }
 
-    let hasBridgeCommand = false;
-    let latestStage: BridgeStage | null = null;
+    // `set -e` stops at any failing line; a bridge that fails to stage or send always stops
+    // the batch, since the lines after it usually depend on it
+    let stopOnError = false;
+    let staged: { stage: BridgeStage; line: string }[] = [];
+    let sentBridge = false;
+    let stopped: { line: string; reason: string; skipped: number } | null = null;
+
+    // Staged bridges are sent before the next non-bridge line, so that line sees $LAST_SIG.
+    // Returns the line of the first bridge that failed, if any.
+    const sendStaged = async () => {
+      const entries = staged;
+      staged = [];
+      if (entries.length === 0) {
+        return null;
+      }
+      sentBridge = true;
+      if (entries.length === 1) {
+        return (await executeQueuedBridge(entries[0].stage)) ? null : entries[0].line;
+      }
+      const rows = await executeStagedBridges(entries.map(({ stage }) => stage));
+      const failed = rows.findIndex((row) => row.status === "failed");
+      return failed >= 0 ? entries[failed].line : null;
+    };
+
+    for (let index = 0; index < commands.length; index += 1) {
+      const line = commands[index];
+      const isBridgeLine = /^(bridge|simulate)(\s|$)/i.test(line);
+      if (!isBridgeLine) {
+        const failedBridge = await sendStaged();
+        if (failedBridge) {
+          stopped = { line: failedBridge, reason: "bridge failed", skipped: commands.length - index };
+          break;
+        }
+      }
 
-    for (const line of commands) {
       appendLog("command", line);
-      const parsed = parseTerminalCommand(line);
+      const parsed = parseTerminalCommand(line, terminalVariables.snapshot());
+      const stop = (reason: string) => {
+        stopped = { line, reason, skipped: commands.length - index - 1 };
+      };
       if (parsed.type === "empty") {
         continue;
       }
       if (parsed.type === "error") {
         appendLog("error", parsed.message);
+        if (stopOnError || isBridgeLine) {
+          stop("invalid command");
+          break;
+        }
+        continue;
+      }
+      if (parsed.type === "batchOption") {
+        stopOnError = parsed.stopOnError;
+        appendLog(
+          "system",
+          stopOnError ? "set -e :: the batch stops at the first failing line." : "set +e :: failing lines no longer stop the batch."
+        );
+        continue;
+      }
+      if (parsed.type === "confirm") {
+        if (!window.confirm(parsed.message)) {
+          stop("not confirmed");
+          break;
+        }
+        appendLog("system", "confirmed.");
         continue;
       }
       if (parsed.type === "bridge") {
-        const stage = queueBridge(parsed.payload);
-        if (stage) {
-          latestStage = stage;
-          hasBridgeCommand = true;
+        const stage = await queueBridge(parsed.payload);
+        if (!stage) {
+          stop("bridge could not be staged");
+          break;
         }
+        staged.push({ stage, line });
         continue;
       }
-      await executeCommand(parsed);
+
+      const succeeded = await executeCommand(parsed);
+      if (stopOnError && !succeeded) {
+        stop("command failed");
+        break;
+      }
+    }
+
+    if (!stopped) {
+      const failedBridge = await sendStaged();
+      if (failedBridge) {
+        stopped = { line: failedBridge, reason: "bridge failed", skipped: 0 };
+      }
     }
 
-    if (latestStage) {
-      await executeQueuedBridge(latestStage);
-    } else if (hasBridgeCommand) {
-      await executeQueuedBridge();
-    } else {
+    if (stopped) {
+      const { line, reason, skipped } = stopped;
+      appendLog(
+        "error",
+        `batch stopped at "${line}": ${reason}${skipped ? `; ${skipped} later command(s) skipped` : ""}.`
+      );
+      // Keep the script in the terminal so it can be fixed and re-run
+      return;
+    }
+
+    if (!sentBridge) {
       appendLog("system", "commands processed.");
     }
 
     setCommandBatch("");
   };
 
+  // Rebuilt every render so newly registered ABIs and variables complete right away
+  const completionSources: CompletionSources = {
+    assets: supportedAssets.map((asset) => asset.symbol),
+    destinations: twinAddress ? [...recentDestinations, twinAddress] : recentDestinations,
+    abiFunctions: abiRegistry
+      .list(environment)
+      .flatMap((entry) =>
+        abiRegistry.getFunctionSignatures(entry).map((signature) => `${entry.alias}.${signature.split("(")[0]}`)
+      ),
+    variables: terminalVariables.entries().map(([name]) => name),
+  };
+
     return (
     <div className="flex-1 flex flex-col space-y-6">
       <section className="bg-black/60 border border-green-500/30 rounded-lg p-4 shadow-lg shadow-green-500/10">
@@ -979,16 +2461,86 @@ export const MainContent: React.FC = () => {
                 bridges a custom SPL mint by explicitly telling the bridge which Solana mint, Base token, and decimals to use.
               </li>
               <li>
-                Create a devnet SPL and mint full supply to your wallet: <code>deploySpl MyToken MYT 6 1000000</code>
+                Create a devnet SPL and mint full supply to your wallet: <code>deploySpl MyToken MYT 6 1000000</code>{" "}
+                (add <code>--token-2022</code> for a Token-2022 mint)
               </li>
               <li>
                 Attach Base calls via <code>--call-contract</code>, <code>--call-selector</code>{" "}
                 (e.g. <code>&quot;transfer(address,uint256)&quot;</code>), <code>--call-args</code>,{" "}
-                <code>--call-value</code>.
+                <code>--call-value</code>. Args accept arrays (<code>[1,2]</code>), tuples{" "}
+                (<code>[(0xabc,1),(0xdef,2)]</code>), <code>true</code>/<code>false</code>, negative ints and unit
+                amounts like <code>1.5e18</code> or <code>&quot;100 gwei&quot;</code>.
+              </li>
+              <li>
+                Deploy a contract from your Twin with <code>--deploy &lt;0x-bytecode|artifact.json&gt;</code>; add{" "}
+                <code>--salt 0x..</code> for create2 and <code>--ctor-args</code> when the artifact has a constructor.
+                The predicted address is printed before you execute.
+              </li>
+              <li>
+                Register a contract once with <code>abi add wsol 0x... erc20</code> (bundled ABIs live in{" "}
+                <code>public/abis</code>; inline JSON or a URL also works), then call it by name:{" "}
+                <code>bridge 1 sol 0xabc --call wsol.transfer 0xrecipient 1000</code>.
+              </li>
+              <li>
+                Repeat <code>--call</code> (alias or <code>0xcontract &quot;fn(types)&quot;</code>) to batch several calls
+                into one Multicall3 delegatecall. Follow a call with <code>--allow-failure</code> to let it revert without
+                failing the rest; <code>--value &lt;eth&gt;</code> only works on a single call. In batch scripts, a <code>calls</code> … <code>end</code> block under a
+                bridge line adds one call per line.
+              </li>
+              <li>
+                Amounts can be <code>max</code>, a share like <code>50%</code> or <code>all-but 0.01</code>. They are
+                resolved from your live balance when the bridge is staged (SOL keeps back the estimated fees and
+                message rent) and the exact amount is logged before you execute.
               </li>
               <li>
                 To bridge SPL tokens, paste the mint instead of <code>sol</code> and set{" "}
-                <code>--remote</code> to its Base twin.
+                <code>--remote</code> to its Base twin. The wallet needs a funded token account for the mint.
+              </li>
+              <li>
+                On a congested cluster add <code>--priority-fee &lt;microlamports|auto&gt;</code> (auto reads recent
+                fees paid on the bridge accounts) and optionally <code>--cu-limit &lt;units&gt;</code>; the staged
+                summary shows the fee you will pay.
+              </li>
+              <li>
+                Signing elsewhere? Add <code>--export</code> to print the unsigned transaction as base64 with a JSON
+                summary, sign it within about a minute, then paste it back with <code>submit &lt;base64&gt;</code>.
+              </li>
+              <li>
+                Treasury in a Squads multisig? Add <code>--squads &lt;multisig&gt;</code> (and{" "}
+                <code>--vault-index</code> if not 0): the vault funds the bridge and its own Twin runs attached calls,
+                while your wallet only creates and approves the proposal for the other members.
+              </li>
+              <li>
+                Chain commands with variables: <code>set DEST 0x...</code> then use <code>$DEST</code>. The terminal
+                keeps <code>$WALLET</code>, <code>$TWIN</code>, <code>$LAST_MINT</code> (from <code>deploySpl</code>) and{" "}
+                <code>$LAST_SIG</code> current, so <code>remoteToken $LAST_MINT</code> works right after a deploy.
+                Single quotes keep <code>$</code> literal.
+              </li>
+              <li>
+                Batch scripts run top to bottom: start with <code>set -e</code> to stop at the first failing line (a
+                failed bridge always stops the rest), pause with <code>wait-for executed</code> until the last bridge
+                lands on Base, ask before continuing with <code>confirm &quot;Deploy the ERC-20 first?&quot;</code>, and
+                annotate with <code># comments</code>.
+              </li>
+              <li>
+                Press <code>Tab</code> while typing to complete commands, flags, asset symbols, recent destinations,
+                ABI functions after <code>--call</code> and <code>$VARIABLES</code>; the usage line under the terminal
+                follows the command you are on.
+              </li>
+              <li>
+                Every <code>bridge</code> line in a batch runs, in order. Neighbouring bridges without{" "}
+                <code>--dry-run</code>, <code>--export</code> or <code>--squads</code> are packed up to three per
+                transaction and signed in one wallet prompt when your wallet supports it; a summary table lists each
+                bridge&apos;s result at the end.
+              </li>
+              <li>
+                Recurring top-ups: <code>schedule add &quot;bridge 0.5 sol 0x...&quot; --every 24h</code> stores the
+                job in this browser. It fires while the app is open with the same wallet connected and asks you to
+                confirm before signing; manage jobs with <code>schedule list</code> and <code>schedule rm &lt;id&gt;</code>.
+              </li>
+              <li>
+                Bridges are rebroadcast until they land. If one expires first it stays staged; press Execute with an
+                empty terminal to re-sign it with a fresh blockhash.
               </li>
               <li>
                 Need Base remote token for a wrapped SPL token? Run <code>remoteToken &lt;mint&gt;</code> to echo the{" "}
@@ -998,10 +2550,20 @@ export const MainContent: React.FC = () => {
                 Your Twin address lives under the wallet button; use it as the destination when piping
                 contract calls.
               </li>
+              <li>
+                Bridge back to Solana with <code>withdraw &lt;amount&gt; &lt;asset&gt; &lt;solana-address&gt;</code>;
+                add <code>--from evm</code> to send from a browser EVM wallet instead of your Twin.
+              </li>
               <li>
                 Utility commands: <code>balance</code>, <code>assets</code>, <code>history</code>,{" "}
+                <code>status &lt;signature&gt;</code>,{" "}
                 <code>faucet sol</code>, <code>help</code>, <code>clear</code>.
               </li>
+              <li>
+                Commands you run are remembered per wallet and network: <code>Up</code>/<code>Down</code> recall
+                them, <code>Ctrl+R</code> searches them, <code>history cmd</code> lists them with numbers and{" "}
+                <code>!!</code> or <code>!12</code> runs one again (<code>history tx</code> shows on-chain bridges).
+              </li>
             </ul>
             <p className="text-xs text-green-300/80">
               Need an example? Copy the quickstart snippet above the terminal and hit Execute after connecting
@@ -1011,46 +2573,36 @@ export const MainContent: React.FC = () => {
         </div>
       )}
 
-      <section className="bg-black/60 border border-green-500/30 rounded-lg p-4 shadow-lg shadow-green-500/10 flex-1 flex flex-col">
-        <div className="flex items-center justify-between mb-3">
-          <h3 className="text-green-300 uppercase tracking-[0.2em] text-xs">
-            terminal
-          </h3>
-          <div className="text-green-200 text-xs">
-            {pendingBridge
-              ? `staged bridge (${config.label}): ${pendingBridge.amount} ${pendingBridge.asset}`
-              : "no bridge queued"}
-          </div>
-        </div>
-        <textarea
-          value={commandBatch}
-          onChange={(event) => setCommandBatch(event.target.value)}
-          rows={8}
-          spellCheck={false}
-          disabled={isLocked}
-          placeholder={
-            connected
-              ? `bridge 0.2 sol 0xabc --call-contract 0xdef --call-selector transfer(address,uint256) --call-args 0xrecipient 1000000`
-              : "connect a wallet to start bridging"
-          }
-          className="mt-3 w-full bg-black/80 border border-green-500/40 rounded px-3 py-2 text-green-100 placeholder-green-800 font-mono text-sm focus:outline-none focus:border-green-400 disabled:opacity-60 min-h-48 sm:min-h-56 lg:min-h-72 resize-vertical"
-        />
-        <button
-          type="button"
-          onClick={handleCommandBatchExecute}
-          disabled={isLocked || isExecuting}
-          className="mt-3 inline-flex items-center justify-center bg-green-600/80 hover:bg-green-500 text-black font-semibold px-4 py-2 rounded disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-        >
-          {isExecuting ? "Executing..." : "Execute"}
-        </button>
-        <button
-          type="button"
-          onClick={() => setIsGuideOpen(true)}
-          className="mt-2 inline-flex items-center justify-center border border-green-400/60 text-green-200 px-4 py-2 rounded text-sm hover:bg-green-400/10 transition-colors"
-        >
-          How to use?
-        </button>
-      </section>
+      <TerminalInput
+        value={commandBatch}
+        onChange={setCommandBatch}
+        onExecute={handleCommandBatchExecute}
+        disabled={isLocked}
+        isExecuting={isExecuting}
+        onGuide={() => setIsGuideOpen(true)}
+        placeholder={
+          connected
+            ? `bridge 0.2 sol 0xabc --call-contract 0xdef --call-selector transfer(address,uint256) --call-args 0xrecipient 1000000`
+            : "connect a wallet to start bridging"
+        }
+        status={
+          pendingBridge
+            ? `staged bridge (${config.label}): ${pendingBridge.amount} ${pendingBridge.asset}${
+                stagedFee ? ` · est. fee ${formatFee(stagedFee)}` : ""
+              }${
+                stagedFee && stagedFee.microLamportsPerUnit > BigInt(0)
+                  ? ` · priority ${stagedFee.microLamportsPerUnit.toString()} µL/CU × ${stagedFee.computeUnitLimit}`
+                  : ""
+              }${
+                stagedVault
+                  ? ` · squads vault ${stagedVault.vault.toBase58().slice(0, 8)}… · threshold ${stagedVault.threshold}/${stagedVault.members} · proposal #${stagedVault.transactionIndex.toString()}`
+                  : ""
+              }`
+            : "no bridge queued"
+        }
+        completionSources={completionSources}
+        history={commandHistory.list(environment, publicKey)}
+      />
 
       <section className="bg-black/60 border border-green-500/30 rounded-lg p-4 shadow-lg shadow-green-500/10">
         <div className="flex items-center justify-between mb-3">
@@ -1058,14 +2610,17 @@ export const MainContent: React.FC = () => {
             logs
           </h3>
           {pendingCallMeta && (
-            <span className="text-green-200 text-xs">
-              staged call: {pendingCallMeta.selector} @{" "}
-              {pendingCallMeta.contract}{" "}
-              {pendingCallMeta.args.length
-                ? `(args: ${pendingCallMeta.args.join(" ")})`
-                : ""}
-              {pendingCallMeta.value ? ` value: ${pendingCallMeta.value}` : ""}
-            </span>
+            <div className="text-green-200 text-xs text-right space-y-0.5">
+              {pendingCallMeta.map((meta, idx) => (
+                <div key={`${meta.contract}-${idx}`}>
+                  staged call{pendingCallMeta.length > 1 ? ` ${idx + 1}/${pendingCallMeta.length}` : ""}:{" "}
+                  {meta.selector} @ {meta.contract}{" "}
+                  {meta.args.length ? `(args: ${meta.args.join(" ")})` : ""}
+                  {meta.value ? ` value: ${meta.value}` : ""}
+                  {meta.allowFailure ? " [allow-failure]" : ""}
+                </div>
+              ))}
+            </div>
           )}
         </div>
         {logEntries.length === 0 ? (
@@ -1088,6 +2643,13 @@ export const MainContent: React.FC = () => {
                   {entry.timestamp}
                 </span>
                 {entry.content}
+                {entry.details && (
+                  <ul className="ml-6 mt-1 text-xs text-green-300/70 font-mono break-all">
+                    {entry.details.map((line, idx) => (
+                      <li key={`${entry.id}-${idx}`}>{line}</li>
+                    ))}
+                  </ul>
+                )}
               </li>
             ))}
           </ul>
@@ -1,4 +1,5 @@
-import React from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { completeTerminalInput, type CompletionSources } from "../../lib/terminalCompletion";
 
 interface Props {
   value: string;
@@ -8,6 +9,30 @@ interface Props {
   placeholder?: string;
   isExecuting?: boolean;
   onGuide?: () => void;
+  /** Shown next to the title, e.g. the staged bridge */
+  status?: React.ReactNode;
+  /** Enables Tab completion and the usage line under the input */
+  completionSources?: CompletionSources;
+  /** Previous commands, oldest first; enables Up/Down recall and Ctrl+R search */
+  history?: string[];
+}
+
+interface HistorySearch {
+  query: string;
+  /** Index into `history` of the current match */
+  match: number | null;
+}
+
+const MAX_VISIBLE_CANDIDATES = 12;
+
+function commonPrefix(values: string[]): string {
+  return values.reduce((prefix, value) => {
+    let length = 0;
+    while (length < prefix.length && prefix[length].toLowerCase() === value[length]?.toLowerCase()) {
+      length += 1;
+    }
+    return prefix.slice(0, length);
+  });
 }
 
 export const TerminalInput: React.FC<Props> = ({
@@ -18,21 +43,219 @@ export const TerminalInput: React.FC<Props> = ({
   placeholder,
   isExecuting,
   onGuide,
+  status,
+  completionSources,
+  history,
 }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [cursor, setCursor] = useState(0);
+  // Position while stepping through history with Up/Down, and the unsent text to come back to
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [search, setSearch] = useState<HistorySearch | null>(null);
+
+  // A newly recorded command restarts Up/Down from the most recent entry
+  useEffect(() => {
+    setHistoryIndex(null);
+  }, [history?.length]);
+
+  const completion = useMemo(
+    () => (completionSources ? completeTerminalInput(value, Math.min(cursor, value.length), completionSources) : null),
+    [completionSources, cursor, value]
+  );
+
+  const syncCursor = () => {
+    setCursor(textareaRef.current?.selectionStart ?? 0);
+  };
+
+  const setValueAtEnd = (next: string) => {
+    onChange(next);
+    setCursor(next.length);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(next.length, next.length);
+    });
+  };
+
+  // Most recent entry before `before` that contains the query
+  const findMatch = (query: string, before: number): number | null => {
+    const needle = query.toLowerCase();
+    const entries = history ?? [];
+    for (let index = Math.min(before, entries.length) - 1; index >= 0; index -= 1) {
+      if (entries[index].toLowerCase().includes(needle)) {
+        return index;
+      }
+    }
+    return null;
+  };
+
+  const closeSearch = (accept: boolean) => {
+    if (accept && search?.match != null && history) {
+      setHistoryIndex(null);
+      setValueAtEnd(history[search.match]);
+    } else {
+      requestAnimationFrame(() => textareaRef.current?.focus());
+    }
+    setSearch(null);
+  };
+
+  const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!search) {
+      return;
+    }
+    if (event.ctrlKey && event.key.toLowerCase() === "r") {
+      event.preventDefault();
+      const older = findMatch(search.query, search.match ?? history?.length ?? 0);
+      if (older !== null) {
+        setSearch({ ...search, match: older });
+      }
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      closeSearch(true);
+    } else if (event.key === "Escape" || (event.ctrlKey && event.key.toLowerCase() === "g")) {
+      event.preventDefault();
+      closeSearch(false);
+    }
+  };
+
+  const recall = (index: number) => {
+    if (!history) {
+      return;
+    }
+    setHistoryIndex(index);
+    setValueAtEnd(history[index]);
+  };
+
+  const replaceToken = (replacement: string) => {
+    if (!completion) {
+      return;
+    }
+    const next = value.slice(0, completion.from) + replacement + value.slice(completion.to);
+    const position = completion.from + replacement.length;
+    onChange(next);
+    setCursor(position);
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (history && event.ctrlKey && event.key.toLowerCase() === "r") {
+      // Also keeps the browser from reloading the page
+      event.preventDefault();
+      setSearch({ query: "", match: history.length ? history.length - 1 : null });
+      return;
+    }
+
+    const plainArrow =
+      (event.key === "ArrowUp" || event.key === "ArrowDown") &&
+      !event.shiftKey &&
+      !event.altKey &&
+      !event.ctrlKey &&
+      !event.metaKey;
+    if (history?.length && plainArrow) {
+      // Only from the first / last line, so moving through a multi-line script still works
+      const { selectionStart, selectionEnd } = event.currentTarget;
+      if (selectionStart !== selectionEnd) {
+        return;
+      }
+      if (event.key === "ArrowUp" && !value.slice(0, selectionStart).includes("\n")) {
+        event.preventDefault();
+        if (historyIndex === null) {
+          setDraft(value);
+        }
+        recall(historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1));
+      } else if (event.key === "ArrowDown" && historyIndex !== null && !value.slice(selectionStart).includes("\n")) {
+        event.preventDefault();
+        if (historyIndex + 1 < history.length) {
+          recall(historyIndex + 1);
+        } else {
+          setHistoryIndex(null);
+          setValueAtEnd(draft);
+        }
+      }
+      return;
+    }
+
+    if (event.key !== "Tab" || event.shiftKey || !completion?.candidates.length) {
+      return;
+    }
+    // Only swallow Tab when there is something to complete, so keyboard focus still moves otherwise
+    event.preventDefault();
+    const { candidates } = completion;
+    if (candidates.length === 1) {
+      replaceToken(`${candidates[0]} `);
+      return;
+    }
+    const prefix = commonPrefix(candidates);
+    if (prefix.length > completion.to - completion.from) {
+      replaceToken(prefix);
+    }
+  };
+
   return (
     <section className="bg-black/60 border border-green-500/30 rounded-lg p-4 shadow-lg shadow-green-500/10 flex-1 flex flex-col">
       <div className="flex items-center justify-between mb-3">
         <h3 className="text-green-300 uppercase tracking-[0.2em] text-xs">terminal</h3>
+        {status && <div className="text-green-200 text-xs">{status}</div>}
       </div>
       <textarea
+        ref={textareaRef}
         value={value}
-        onChange={(event) => onChange(event.target.value)}
+        onChange={(event) => {
+          onChange(event.target.value);
+          setCursor(event.target.selectionStart);
+          setHistoryIndex(null);
+        }}
+        onKeyDown={handleKeyDown}
+        onSelect={syncCursor}
         rows={8}
         spellCheck={false}
         disabled={disabled}
         placeholder={placeholder}
         className="mt-3 w-full bg-black/80 border border-green-500/40 rounded px-3 py-2 text-green-100 placeholder-green-800 font-mono text-sm focus:outline-none focus:border-green-400 disabled:opacity-60 min-h-48 sm:min-h-56 lg:min-h-72 resize-vertical"
       />
+      {search && (
+        <div className="mt-1 flex items-center gap-1 text-[11px] text-green-300 font-mono">
+          <span>(reverse-i-search)`</span>
+          <input
+            autoFocus
+            value={search.query}
+            onChange={(event) =>
+              setSearch({ query: event.target.value, match: findMatch(event.target.value, history?.length ?? 0) })
+            }
+            onKeyDown={handleSearchKeyDown}
+            onBlur={() => setSearch(null)}
+            spellCheck={false}
+            aria-label="Search command history"
+            className="bg-transparent border-b border-green-500/40 text-green-100 w-32 focus:outline-none"
+          />
+          <span className="break-all">
+            &apos;: {search.match !== null && history ? history[search.match] : "no match"}
+          </span>
+          <span className="text-green-300/60">(enter to use, esc to cancel)</span>
+        </div>
+      )}
+      {completion?.usage && (
+        <div className="mt-1 text-[11px] text-green-300/80 font-mono break-all">usage: {completion.usage}</div>
+      )}
+      {completion && completion.candidates.length > 1 && (
+        <div className="mt-1 flex flex-wrap gap-x-3 text-[11px] text-green-200 font-mono">
+          {completion.candidates.slice(0, MAX_VISIBLE_CANDIDATES).map((candidate) => (
+            <button
+              key={candidate}
+              type="button"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => replaceToken(`${candidate} `)}
+              className="hover:text-green-100"
+            >
+              {candidate}
+            </button>
+          ))}
+          {completion.candidates.length > MAX_VISIBLE_CANDIDATES && (
+            <span className="text-green-300/60">+{completion.candidates.length - MAX_VISIBLE_CANDIDATES} more</span>
+          )}
+          <span className="text-green-300/60">(tab)</span>
+        </div>
+      )}
       <button
         type="button"
         onClick={onExecute}
@@ -53,4 +276,3 @@ export const TerminalInput: React.FC<Props> = ({
     </section>
   );
 };
-
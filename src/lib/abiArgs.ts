@@ -0,0 +1,308 @@
+import { encodeFunctionData, parseAbiParameters, type Abi, type AbiParameter } from 'viem';
+
+/**
+ * Parsed function signature, e.g. `swap((address,uint256)[],bool)`.
+ */
+export interface ParsedFunctionSignature {
+  name: string;
+  inputs: AbiParameter[];
+  signature: string;
+}
+
+type LiteralNode = string | LiteralNode[];
+
+const UNIT_DECIMALS: Record<string, number> = {
+  wei: 0,
+  gwei: 9,
+  eth: 18,
+  ether: 18,
+};
+
+const FUNCTION_PATTERN = /^(?:function\b\s*)?([A-Za-z_][A-Za-z0-9_]*)?\s*\((.*)\)\s*(?:external|public|payable|nonpayable|view|pure|\s)*$/;
+
+/**
+ * Parse `transfer(address,uint256)` or `function transfer(address to, uint256 amount)`.
+ * Parameter lists support nested tuples and arrays.
+ */
+export function parseFunctionSignature(selector: string): ParsedFunctionSignature {
+  const match = selector.trim().match(FUNCTION_PATTERN);
+  if (!match) {
+    throw new Error(
+      'call selector must look like transfer(type1,type2,...) or function transfer(type1,type2,...)'
+    );
+  }
+
+  const name = match[1] && match[1].length > 0 ? match[1] : 'customCall';
+  const params = (match[2] ?? '').trim();
+
+  let inputs: AbiParameter[] = [];
+  if (params.length > 0) {
+    try {
+      inputs = [...parseAbiParameters(params)] as AbiParameter[];
+    } catch (error) {
+      throw new Error(
+        `Unable to parse parameter types "${params}": ${error instanceof Error ? error.message.split('\n')[0] : 'invalid'}`
+      );
+    }
+  }
+
+  return {
+    name,
+    inputs,
+    signature: `${name}(${inputs.map(formatParameterType).join(',')})`,
+  };
+}
+
+/**
+ * Encode calldata for a function signature from raw terminal arguments.
+ */
+export function encodeFunctionCall(selector: string, args: string[] = []): `0x${string}` {
+  const { name, inputs } = parseFunctionSignature(selector);
+
+  if (inputs.length !== args.length) {
+    throw new Error(
+      `number of call args must match function selector inputs (expected ${inputs.length}, got ${args.length}).`
+    );
+  }
+
+  const abi: Abi = [
+    {
+      name,
+      type: 'function',
+      stateMutability: 'nonpayable',
+      inputs: inputs.map((param, idx) => ({ ...param, name: param.name || `arg${idx}` })),
+      outputs: [],
+    },
+  ];
+  return encodeFunctionData({
+    abi,
+    functionName: name,
+    args: inputs.map((param, idx) => parseAbiArgument(args[idx], param, `arg ${idx + 1}`)),
+  });
+}
+
+/**
+ * Convert a raw argument into the value viem expects for `param`.
+ * Arrays and tuples accept JSON-ish literals: `[1,2]`, `[(0xabc,1),(0xdef,2)]`, `(0xabc,[true,false])`.
+ */
+export function parseAbiArgument(raw: string, param: AbiParameter, label = 'arg'): unknown {
+  return convertNode(parseLiteral(raw), param, label);
+}
+
+function convertNode(node: LiteralNode, param: AbiParameter, label: string): unknown {
+  const type = param.type;
+  const arrayMatch = type.match(/^(.*)\[(\d*)\]$/);
+
+  if (arrayMatch) {
+    if (!Array.isArray(node)) {
+      throw new Error(`${label} must be an array literal like [a,b] for ${type}.`);
+    }
+    const [, innerType, fixedLength] = arrayMatch;
+    if (fixedLength && node.length !== Number(fixedLength)) {
+      throw new Error(`${label} must have exactly ${fixedLength} items for ${type}.`);
+    }
+    const innerParam = { ...param, type: innerType } as AbiParameter;
+    return node.map((item, idx) => convertNode(item, innerParam, `${label}[${idx}]`));
+  }
+
+  if (type === 'tuple') {
+    const components = 'components' in param ? param.components : [];
+    if (!Array.isArray(node)) {
+      throw new Error(`${label} must be a tuple literal like (a,b) for ${formatParameterType(param)}.`);
+    }
+    if (node.length !== components.length) {
+      throw new Error(`${label} must have ${components.length} tuple fields, got ${node.length}.`);
+    }
+    const values = components.map((component, idx) =>
+      convertNode(node[idx], component, `${label}.${component.name || idx}`)
+    );
+    // Named tuples encode from objects, anonymous ones from positional arrays
+    if (components.every((component) => component.name)) {
+      return Object.fromEntries(components.map((component, idx) => [component.name, values[idx]]));
+    }
+    return values;
+  }
+
+  if (Array.isArray(node)) {
+    throw new Error(`${label} must be a single value for ${type}, not a list.`);
+  }
+
+  const value = node.trim();
+
+  if (type === 'address') {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(value)) {
+      throw new Error(`${label} must be a valid 0x address.`);
+    }
+    return value as `0x${string}`;
+  }
+
+  if (type === 'bool') {
+    const normalized = value.toLowerCase();
+    if (['true', '1', 'yes'].includes(normalized)) return true;
+    if (['false', '0', 'no'].includes(normalized)) return false;
+    throw new Error(`${label} must be true or false for bool.`);
+  }
+
+  const intMatch = type.match(/^(u?)int(\d*)$/);
+  if (intMatch) {
+    const signed = intMatch[1] !== 'u';
+    const bits = Number(intMatch[2] || 256);
+    const parsed = parseIntegerLiteral(value, label, type);
+    const min = signed ? -(BigInt(1) << BigInt(bits - 1)) : BigInt(0);
+    const max = signed ? (BigInt(1) << BigInt(bits - 1)) - BigInt(1) : (BigInt(1) << BigInt(bits)) - BigInt(1);
+    if (parsed < min || parsed > max) {
+      throw new Error(`${label} is out of range for ${type}.`);
+    }
+    return parsed;
+  }
+
+  const bytesMatch = type.match(/^bytes(\d*)$/);
+  if (bytesMatch) {
+    if (!/^0x([0-9a-fA-F]{2})*$/.test(value)) {
+      throw new Error(`${label} must be even-length hex for ${type}.`);
+    }
+    if (bytesMatch[1] && (value.length - 2) / 2 !== Number(bytesMatch[1])) {
+      throw new Error(`${label} must be exactly ${bytesMatch[1]} bytes for ${type}.`);
+    }
+    return value as `0x${string}`;
+  }
+
+  if (type === 'string') {
+    return value;
+  }
+
+  throw new Error(`Unsupported ABI type "${type}" for ${label}.`);
+}
+
+/**
+ * Parse integer literals: `1000`, `-5`, `0xff`, `1.5e18`, `100 gwei`, `0.25 ether`.
+ */
+function parseIntegerLiteral(value: string, label: string, type: string): bigint {
+  const hexMatch = value.match(/^(-)?0x([0-9a-fA-F]+)$/);
+  if (hexMatch) {
+    const parsed = BigInt(`0x${hexMatch[2]}`);
+    return hexMatch[1] ? -parsed : parsed;
+  }
+
+  const match = value
+    .replace(/_/g, '')
+    .match(/^(-)?(\d*)(?:\.(\d+))?(?:e([+-]?\d+))?\s*([A-Za-z]+)?$/i);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`${label} must be numeric for ${type}.`);
+  }
+
+  const [, sign, whole = '', fraction = '', exponentRaw, unitRaw] = match;
+  let scale = Number(exponentRaw ?? 0);
+  if (unitRaw) {
+    const unitDecimals = UNIT_DECIMALS[unitRaw.toLowerCase()];
+    if (unitDecimals === undefined) {
+      throw new Error(`${label} has unknown unit "${unitRaw}". Use wei, gwei or ether.`);
+    }
+    scale += unitDecimals;
+  }
+
+  let digits = `${whole}${fraction}`.replace(/^0+(?=\d)/, '');
+  scale -= fraction.length;
+  if (scale < 0) {
+    const dropped = digits.slice(scale);
+    if (/[^0]/.test(dropped)) {
+      throw new Error(`${label} does not resolve to a whole number for ${type}.`);
+    }
+    digits = digits.slice(0, scale) || '0';
+  } else {
+    digits = `${digits}${'0'.repeat(scale)}`;
+  }
+
+  const parsed = BigInt(digits || '0');
+  return sign ? -parsed : parsed;
+}
+
+/**
+ * Parse a JSON-ish literal into nested string lists.
+ * `[` / `(` open a list, `,` separates items, quotes keep commas and brackets literal.
+ */
+function parseLiteral(raw: string): LiteralNode {
+  const input = raw.trim();
+  if (!input.startsWith('[') && !input.startsWith('(')) {
+    return unquote(input);
+  }
+
+  let index = 0;
+
+  const parseList = (): LiteralNode[] => {
+    const close = input[index] === '[' ? ']' : ')';
+    index += 1;
+    const items: LiteralNode[] = [];
+    let current = '';
+    let pending: LiteralNode | null = null;
+    let quote: string | null = null;
+
+    const flush = () => {
+      if (pending !== null) {
+        if (current.trim().length > 0) {
+          throw new Error(`Unexpected "${current.trim()}" after nested list in "${raw}".`);
+        }
+        items.push(pending);
+      } else if (current.trim().length > 0) {
+        items.push(unquote(current.trim()));
+      }
+      current = '';
+      pending = null;
+    };
+
+    while (index < input.length) {
+      const char = input[index];
+      if (quote) {
+        current += char;
+        if (char === quote) quote = null;
+        index += 1;
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        quote = char;
+        current += char;
+        index += 1;
+        continue;
+      }
+      if (char === '[' || char === '(') {
+        pending = parseList();
+        continue;
+      }
+      if (char === ']' || char === ')') {
+        if (char !== close) {
+          throw new Error(`Mismatched "${char}" in "${raw}".`);
+        }
+        flush();
+        index += 1;
+        return items;
+      }
+      if (char === ',') {
+        flush();
+        index += 1;
+        continue;
+      }
+      current += char;
+      index += 1;
+    }
+
+    throw new Error(`Unterminated list literal "${raw}".`);
+  };
+
+  const result = parseList();
+  if (input.slice(index).trim().length > 0) {
+    throw new Error(`Unexpected trailing input in "${raw}".`);
+  }
+  return result;
+}
+
+function unquote(value: string): string {
+  const match = value.match(/^(["'])([\s\S]*)\1$/);
+  return match ? match[2] : value;
+}
+
+function formatParameterType(param: AbiParameter): string {
+  if (param.type.startsWith('tuple') && 'components' in param) {
+    return `(${param.components.map(formatParameterType).join(',')})${param.type.slice('tuple'.length)}`;
+  }
+  return param.type;
+}
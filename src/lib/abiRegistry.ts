@@ -0,0 +1,211 @@
+import { toFunctionSignature, type Abi, type AbiFunction } from 'viem';
+import type { BridgeEnvironment } from './constants';
+
+export interface AbiRegistryEntry {
+  alias: string;
+  address: string;
+  environment: BridgeEnvironment;
+  source: string;
+  abi: Abi;
+  addedAt: number;
+}
+
+export interface ResolvedAbiCall {
+  alias: string;
+  contract: string;
+  functionName: string;
+  selector: string;
+}
+
+const STORAGE_KEY = 'terminally-onchain:abi-registry';
+const PROJECT_ABI_PATH = '/abis';
+const ALIAS_REGEX = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Load JSON from an inline literal, a URL, or a file under public/abis (`erc20` → /abis/erc20.json).
+ */
+export async function loadJsonSource(source: string): Promise<unknown> {
+  const trimmed = source.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      throw new Error('Inline JSON is not valid.');
+    }
+  }
+
+  const url =
+    /^https?:\/\//.test(trimmed) || trimmed.startsWith('/')
+      ? trimmed
+      : `${PROJECT_ABI_PATH}/${trimmed.replace(/\.json$/, '')}.json`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Unable to load ${url} (${response.status}).`);
+  }
+  return response.json();
+}
+
+/**
+ * Contract aliases with their ABIs, one set per environment.
+ * ABIs come from inline JSON, a URL, or a file under public/abis (e.g. `erc20` → /abis/erc20.json).
+ */
+export class AbiRegistry {
+  private entries: AbiRegistryEntry[] | null = null;
+
+  async add(
+    environment: BridgeEnvironment,
+    alias: string,
+    address: string,
+    source: string
+  ): Promise<AbiRegistryEntry> {
+    if (!ALIAS_REGEX.test(alias)) {
+      throw new Error(`Invalid alias "${alias}". Use letters, digits, "_" or "-".`);
+    }
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      throw new Error(`Invalid contract address "${address}". Expected a 0x address.`);
+    }
+
+    const abi = await this.loadAbi(source);
+    const entry: AbiRegistryEntry = {
+      alias: alias.toLowerCase(),
+      address,
+      environment,
+      source: source.trim().startsWith('[') || source.trim().startsWith('{') ? 'inline' : source,
+      abi,
+      addedAt: Date.now(),
+    };
+
+    const entries = this.load().filter(
+      (existing) => !(existing.environment === environment && existing.alias === entry.alias)
+    );
+    this.entries = [...entries, entry];
+    this.persist();
+    return entry;
+  }
+
+  list(environment: BridgeEnvironment): AbiRegistryEntry[] {
+    return this.load().filter((entry) => entry.environment === environment);
+  }
+
+  get(environment: BridgeEnvironment, alias: string): AbiRegistryEntry | undefined {
+    const normalized = alias.toLowerCase();
+    return this.load().find(
+      (entry) => entry.environment === environment && entry.alias === normalized
+    );
+  }
+
+  /**
+   * Function signatures exposed by a registered contract, e.g. `transfer(address,uint256)`.
+   */
+  getFunctionSignatures(entry: AbiRegistryEntry): string[] {
+    return this.getFunctions(entry).map((fn) => toFunctionSignature(fn));
+  }
+
+  /**
+   * Resolve `alias.fn` (or `alias.fn(types)` for overloads) into a contract and selector.
+   */
+  resolveCall(environment: BridgeEnvironment, target: string, argCount: number): ResolvedAbiCall {
+    const match = target.trim().match(/^([^.]+)\.([A-Za-z_][A-Za-z0-9_]*)(\(.*\))?$/);
+    if (!match) {
+      throw new Error(`Invalid call target "${target}". Expected <alias>.<function>.`);
+    }
+
+    const [, alias, functionName, explicitParams] = match;
+    const entry = this.get(environment, alias);
+    if (!entry) {
+      throw new Error(`Unknown contract alias "${alias}". Register it with abi add ${alias} <address> <abi>.`);
+    }
+
+    const candidates = this.getFunctions(entry).filter((fn) => fn.name === functionName);
+    if (candidates.length === 0) {
+      throw new Error(`Contract "${entry.alias}" has no function "${functionName}". Run abi show ${entry.alias}.`);
+    }
+
+    let fn: AbiFunction | undefined;
+    if (explicitParams) {
+      const wanted = `${functionName}${explicitParams.replace(/\s+/g, '')}`;
+      fn = candidates.find((candidate) => toFunctionSignature(candidate) === wanted);
+      if (!fn) {
+        throw new Error(`Contract "${entry.alias}" has no overload ${wanted}.`);
+      }
+    } else {
+      const byArity = candidates.filter((candidate) => candidate.inputs.length === argCount);
+      if (byArity.length === 0) {
+        throw new Error(
+          `${entry.alias}.${functionName} expects ${candidates
+            .map((candidate) => candidate.inputs.length)
+            .join(' or ')} args, got ${argCount}.`
+        );
+      }
+      if (byArity.length > 1) {
+        throw new Error(
+          `${entry.alias}.${functionName} is overloaded; pick one: ${byArity
+            .map((candidate) => `${entry.alias}.${toFunctionSignature(candidate)}`)
+            .join(', ')}`
+        );
+      }
+      fn = byArity[0];
+    }
+
+    return {
+      alias: entry.alias,
+      contract: entry.address,
+      functionName,
+      selector: toFunctionSignature(fn),
+    };
+  }
+
+  private getFunctions(entry: AbiRegistryEntry): AbiFunction[] {
+    return entry.abi.filter((item): item is AbiFunction => item.type === 'function');
+  }
+
+  private async loadAbi(source: string): Promise<Abi> {
+    const raw = await loadJsonSource(source);
+
+    // Accept bare ABI arrays as well as Hardhat / Foundry artifacts ({ abi: [...] })
+    const abi = Array.isArray(raw) ? raw : (raw as { abi?: unknown } | null)?.abi;
+    if (!Array.isArray(abi)) {
+      throw new Error('ABI must be a JSON array or an artifact with an "abi" field.');
+    }
+    if (!abi.some((item) => (item as { type?: string })?.type === 'function')) {
+      throw new Error('ABI does not declare any functions.');
+    }
+    return abi as Abi;
+  }
+
+  private load(): AbiRegistryEntry[] {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = [];
+    if (typeof window === 'undefined') {
+      return this.entries;
+    }
+
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        this.entries = JSON.parse(raw) as AbiRegistryEntry[];
+      }
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to read ABI registry', error);
+    }
+    return this.entries;
+  }
+
+  private persist() {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries ?? []));
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to persist ABI registry', error);
+    }
+  }
+}
+
+export const abiRegistry = new AbiRegistry();
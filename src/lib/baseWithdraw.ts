@@ -0,0 +1,244 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  createPublicClient,
+  createWalletClient,
+  custom,
+  encodeFunctionData,
+  http,
+  type EIP1193Provider,
+  type PublicClient,
+} from 'viem';
+import { base as baseMainnet, baseSepolia } from 'viem/chains';
+import {
+  DEFAULT_ENVIRONMENT,
+  getEnvironmentPreset,
+  type BaseNetworkConfig,
+} from './constants';
+import type { BaseContractCall } from './realBridgeImplementation';
+
+/**
+ * Remote token id the Base bridge uses for native SOL.
+ */
+export const NATIVE_SOL_PUBKEY = new PublicKey('SoL1111111111111111111111111111111111111111');
+
+export interface WithdrawTransfer {
+  localToken: `0x${string}`;
+  remoteToken: `0x${string}`;
+  to: `0x${string}`;
+  remoteAmount: bigint;
+}
+
+export interface InitiatedMessage {
+  messageHash: `0x${string}`;
+  nonce: bigint;
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+}
+
+const BASE_BRIDGE_ABI = [
+  {
+    name: 'bridgeToken',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      {
+        name: 'transfer',
+        type: 'tuple',
+        components: [
+          { name: 'localToken', type: 'address' },
+          { name: 'remoteToken', type: 'bytes32' },
+          { name: 'to', type: 'bytes32' },
+          { name: 'remoteAmount', type: 'uint64' },
+        ],
+      },
+      {
+        name: 'ixs',
+        type: 'tuple[]',
+        components: [
+          { name: 'programId', type: 'bytes32' },
+          {
+            name: 'accounts',
+            type: 'tuple[]',
+            components: [
+              { name: 'pubKey', type: 'bytes32' },
+              { name: 'isWritable', type: 'bool' },
+              { name: 'isSigner', type: 'bool' },
+            ],
+          },
+          { name: 'data', type: 'bytes' },
+        ],
+      },
+    ],
+    outputs: [],
+  },
+  {
+    name: 'MessageInitiated',
+    type: 'event',
+    inputs: [
+      { name: 'messageHash', type: 'bytes32', indexed: true },
+      { name: 'mmrRoot', type: 'bytes32', indexed: true },
+      {
+        name: 'message',
+        type: 'tuple',
+        indexed: false,
+        components: [
+          { name: 'nonce', type: 'uint64' },
+          { name: 'sender', type: 'address' },
+          { name: 'data', type: 'bytes' },
+        ],
+      },
+    ],
+  },
+] as const;
+
+export const toBytes32Hex = (pubkey: PublicKey): `0x${string}` =>
+  `0x${Buffer.from(pubkey.toBytes()).toString('hex')}`;
+
+/**
+ * Whether a message payload carries `transfer`: its recipient, remote token and
+ * little-endian u64 amount (the layout the Solana bridge deserializes).
+ */
+const carriesTransfer = (data: `0x${string}`, transfer: WithdrawTransfer): boolean => {
+  const payload = Buffer.from(data.slice(2), 'hex');
+  const amount = Buffer.alloc(8);
+  amount.writeBigUInt64LE(transfer.remoteAmount);
+  return (
+    payload.includes(Buffer.from(transfer.to.slice(2), 'hex')) &&
+    payload.includes(Buffer.from(transfer.remoteToken.slice(2), 'hex')) &&
+    payload.includes(amount)
+  );
+};
+
+/**
+ * Base-side half of the Base → Solana return path.
+ * Encodes bridgeToken calls against the Base bridge and watches for the resulting messages.
+ */
+export class BaseWithdrawService {
+  private baseConfig: BaseNetworkConfig;
+  private client: PublicClient;
+
+  constructor(config: BaseNetworkConfig = getEnvironmentPreset(DEFAULT_ENVIRONMENT).base) {
+    this.baseConfig = config;
+    this.client = this.createClient(config);
+  }
+
+  setBaseConfig(config: BaseNetworkConfig) {
+    this.baseConfig = config;
+    this.client = this.createClient(config);
+  }
+
+  getPublicClient(): PublicClient {
+    return this.client;
+  }
+
+  private createClient(config: BaseNetworkConfig): PublicClient {
+    return createPublicClient({
+      chain: this.getChain(config),
+      transport: http(config.rpcUrl),
+    }) as PublicClient;
+  }
+
+  private getChain(config: BaseNetworkConfig = this.baseConfig) {
+    return config.chainId === baseMainnet.id ? baseMainnet : baseSepolia;
+  }
+
+  /**
+   * Encode bridgeToken calldata for a plain transfer (no Solana instructions attached).
+   */
+  encodeBridgeToken(transfer: WithdrawTransfer): `0x${string}` {
+    return encodeFunctionData({
+      abi: BASE_BRIDGE_ABI,
+      functionName: 'bridgeToken',
+      args: [transfer, []],
+    });
+  }
+
+  /**
+   * Wrap a withdraw transfer as a Base call for the Twin to execute.
+   */
+  buildTwinCall(transfer: WithdrawTransfer): BaseContractCall {
+    return {
+      type: 'call',
+      target: this.baseConfig.bridge,
+      value: '0',
+      data: this.encodeBridgeToken(transfer),
+    };
+  }
+
+  async getBlockNumber(): Promise<bigint> {
+    return this.client.getBlockNumber();
+  }
+
+  /**
+   * Send bridgeToken from an injected EVM wallet (e.g. MetaMask, Coinbase Wallet).
+   */
+  async sendFromEvmWallet(transfer: WithdrawTransfer): Promise<{ hash: `0x${string}`; sender: `0x${string}` }> {
+    const provider =
+      typeof window !== 'undefined'
+        ? (window as unknown as { ethereum?: EIP1193Provider }).ethereum
+        : undefined;
+    if (!provider) {
+      throw new Error('No EVM wallet detected. Install a browser wallet or use --from twin.');
+    }
+
+    const chain = this.getChain();
+    const walletClient = createWalletClient({ chain, transport: custom(provider) });
+    const [sender] = await walletClient.requestAddresses();
+    if (!sender) {
+      throw new Error('EVM wallet did not return an account.');
+    }
+
+    const currentChainId = await walletClient.getChainId();
+    if (currentChainId !== chain.id) {
+      await walletClient.switchChain({ id: chain.id });
+    }
+
+    const hash = await walletClient.sendTransaction({
+      account: sender,
+      to: this.baseConfig.bridge as `0x${string}`,
+      data: this.encodeBridgeToken(transfer),
+    });
+
+    return { hash, sender };
+  }
+
+  /**
+   * Find the message a withdraw initiated on the Base bridge since `fromBlock`.
+   * With `transactionHash` (wallet sends) the log must come from that transaction; otherwise
+   * (Twin sends, whose Base transaction is submitted by the relayer) its payload must carry `transfer`.
+   */
+  async findInitiatedMessage(
+    sender: string,
+    fromBlock: bigint,
+    { transactionHash, transfer }: { transactionHash?: string; transfer: WithdrawTransfer }
+  ): Promise<InitiatedMessage | null> {
+    const logs = await this.client.getContractEvents({
+      address: this.baseConfig.bridge as `0x${string}`,
+      abi: BASE_BRIDGE_ABI,
+      eventName: 'MessageInitiated',
+      fromBlock,
+    });
+
+    const match = logs.find((log) => {
+      const message = log.args.message;
+      if (!message || message.sender.toLowerCase() !== sender.toLowerCase()) {
+        return false;
+      }
+      return transactionHash
+        ? log.transactionHash?.toLowerCase() === transactionHash.toLowerCase()
+        : carriesTransfer(message.data, transfer);
+    });
+    if (!match || !match.args.messageHash || !match.args.message) {
+      return null;
+    }
+
+    return {
+      messageHash: match.args.messageHash,
+      nonce: match.args.message.nonce,
+      transactionHash: match.transactionHash,
+      blockNumber: match.blockNumber,
+    };
+  }
+}
+
+export const baseWithdrawService = new BaseWithdrawService();
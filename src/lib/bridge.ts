@@ -1,32 +1,129 @@
-import { Connection, PublicKey, LAMPORTS_PER_SOL, Transaction } from '@solana/web3.js';
+import { Connection, PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import {
   ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
   TOKEN_PROGRAM_ID,
-  createAssociatedTokenAccountInstruction,
+  calculateEpochFee,
   getAccount,
   getAssociatedTokenAddress,
   getMint,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackAccount,
 } from '@solana/spl-token';
 import { formatUnits, parseUnits } from 'ethers';
 import {
+  BRIDGE_CONFIG,
   DEFAULT_ENVIRONMENT,
+  DEFAULT_GAS_LIMIT,
   getEnvironmentPreset,
   type BridgeAssetConfig,
   type BridgeEnvironment,
   type BridgeEnvironmentConfig,
 } from './constants';
 import { realBridgeImplementation } from './realBridgeImplementation';
-import type { BaseContractCall, BridgeAssetDetails } from './realBridgeImplementation';
+import { bridgeTracker } from './bridgeTracker';
+import { transactionSender } from './transactionSender';
+import { squadsMultisigService, type SquadsProposal, type SquadsVault } from './squadsMultisig';
+import type {
+  BaseContractCall,
+  BridgeAssetDetails,
+  BridgeInstructionSet,
+  BridgeMessageAccounts,
+  BridgeSimulationResult,
+  CompiledBridgeTransaction,
+  ComputeBudgetSettings,
+  CreateBridgeTransactionParams,
+  PreparedBridgeTransaction,
+  TransactionBatchSigner,
+  TransactionSigner,
+} from './realBridgeImplementation';
+import {
+  NATIVE_SOL_PUBKEY,
+  baseWithdrawService,
+  toBytes32Hex,
+  type InitiatedMessage,
+  type WithdrawTransfer,
+} from './baseWithdraw';
 
 export interface BridgeTransfer {
-  amount: number;
+  amount: string;
+  amountBaseUnits: bigint;
+  asset: string;
   destinationAddress: string;
   tokenAddress: string;
-  txHash?: string;
+  remoteToken?: string;
+  call?: BaseContractCall;
+  salt: string;
+  txHash: string;
   status: 'pending' | 'confirmed' | 'failed';
   timestamp: number;
 }
 
+export interface TokenExtensionReport {
+  tokenProgram: PublicKey;
+  isToken2022: boolean;
+  transferFee?: {
+    basisPoints: number;
+    maximumFee: bigint;
+    fee: bigint;
+    received: bigint;
+  };
+  transferHookProgram?: PublicKey;
+  warnings: string[];
+}
+
+export interface BridgeFeeEstimateOptions {
+  assetType?: 'sol' | 'spl';
+  gasLimit?: bigint;
+  callDataLength?: number;
+  computeBudget?: ComputeBudgetSettings;
+}
+
+export interface BridgeFeeEstimate {
+  gasLimit: bigint;
+  relayFee: bigint;
+  outgoingMessageRent: bigint;
+  messageToRelayRent: bigint;
+  signatureFee: bigint;
+  priorityFee: bigint;
+  computeUnitLimit: number;
+  microLamportsPerUnit: bigint;
+  total: bigint;
+}
+
+export interface BridgeAmountOptions {
+  /** Wallet (or multisig vault) the amount is bridged from */
+  owner: PublicKey;
+  /** `max`, `<n>%` or `all-but <amount>` */
+  amount: string;
+  assetSymbol: string;
+  overrides?: BridgeAssetOverrides;
+  /** Used to hold back fees and message rent from SOL balances */
+  fee?: BridgeFeeEstimateOptions;
+}
+
+export interface ResolvedBridgeAmount {
+  /** Exact decimal amount, usable as a literal bridge amount */
+  amount: string;
+  baseUnits: bigint;
+  balance: bigint;
+  decimals: number;
+  /** Lamports held back for fees, message rent and the wallet's rent-exempt minimum (SOL only) */
+  reserved?: bigint;
+}
+
+export interface BridgeHistoryOptions {
+  limit?: number;
+  before?: string;
+}
+
+export interface BridgeHistoryPage {
+  transfers: BridgeTransfer[];
+  scanned: number;
+  nextBefore?: string;
+}
+
 export interface BridgeAssetOverrides {
   mint?: string;
   remote?: string;
@@ -38,11 +135,106 @@ export interface BridgeExecutionOptions {
   amount: string;
   assetSymbol: string;
   destinationAddress: string;
-  signTransaction: (transaction: Transaction) => Promise<Transaction>;
+  signTransaction: TransactionSigner;
   overrides?: BridgeAssetOverrides;
   callOptions?: BaseContractCall;
+  gasLimit?: bigint;
+  computeBudget?: ComputeBudgetSettings;
+  /** Bridge from a Squads v4 vault: the wallet only submits a proposal for the multisig to approve */
+  multisig?: BridgeMultisigOptions;
+  /** Called with the compiled transaction (and its size budget) right before signing */
+  onPrepared?: (prepared: PreparedBridge) => void;
+}
+
+export interface BridgeMultisigOptions {
+  address: PublicKey;
+  vaultIndex?: number;
+}
+
+export interface PreparedBridge extends PreparedBridgeTransaction {
+  /** Set in multisig mode: the transaction creates this proposal instead of bridging directly */
+  proposal?: SquadsProposal;
+}
+
+export type BridgeSimulationOptions = Omit<BridgeExecutionOptions, 'signTransaction' | 'onPrepared'>;
+
+export type BridgeBatchItem = Omit<BridgeSimulationOptions, 'walletAddress' | 'multisig'>;
+
+export interface BridgeBatchOptions {
+  walletAddress: PublicKey;
+  bridges: BridgeBatchItem[];
+  signTransaction: TransactionSigner;
+  /** Signs every packed transaction in one wallet prompt when the wallet supports it */
+  signAllTransactions?: TransactionBatchSigner;
+  /** Called with the packed transactions right before signing */
+  onPacked?: (transactions: PackedBridgeTransaction[]) => void;
+}
+
+export interface PackedBridgeTransaction extends CompiledBridgeTransaction {
+  /** Indexes into `bridges`, in instruction order */
+  bridges: number[];
+  messages: BridgeMessageAccounts[];
+}
+
+export interface BridgeBatchResult {
+  signature?: string;
+  message?: BridgeMessageAccounts;
+  /** Index of the packed transaction that carried the bridge */
+  transaction?: number;
+  error?: unknown;
+  /** Not sent because an earlier bridge in the run failed */
+  skipped?: boolean;
+}
+
+export interface ExportedBridgeSummary {
+  environment: BridgeEnvironment;
+  feePayer: string;
+  recentBlockhash: string;
+  lastValidBlockHeight: number;
+  bytes: number;
+  salt: string;
+  outgoingMessage: string;
+  messageToRelay: string;
+  signers: string[];
+  instructions: { programId: string; dataLength: number; decoded: unknown }[];
+}
+
+export interface ExportedBridgeTransaction {
+  /** Unsigned v0 transaction */
+  base64: string;
+  summary: ExportedBridgeSummary;
+}
+
+export type WithdrawSource = 'twin' | 'evm';
+
+export interface WithdrawExecutionOptions {
+  walletAddress: PublicKey;
+  amount: string;
+  assetSymbol: string;
+  destinationAddress: string;
+  source: WithdrawSource;
+  twinAddress?: string;
+  signTransaction: TransactionSigner;
+  overrides?: BridgeAssetOverrides;
+}
+
+export interface WithdrawSubmission {
+  source: WithdrawSource;
+  sender: string;
+  fromBlock: bigint;
+  asset: BridgeAssetDetails;
+  recipient: PublicKey;
+  amount: bigint;
+  transfer: WithdrawTransfer;
+  signature?: string;
+  baseTxHash?: string;
 }
 
+export type WithdrawProgress =
+  | { stage: 'initiated'; message: InitiatedMessage }
+  | { stage: 'proven'; incomingMessage: PublicKey }
+  | { stage: 'executed'; signature?: string };
+
 interface SplBalanceCheckResult {
   tokenAccount: PublicKey;
 }
@@ -57,6 +249,7 @@ export class SolanaBridge {
     this.environmentConfig = getEnvironmentPreset(this.environmentKey);
     this.connection = new Connection(this.environmentConfig.solana.rpcUrl, 'confirmed');
     realBridgeImplementation.setSolanaConfig(this.environmentConfig.solana);
+    baseWithdrawService.setBaseConfig(this.environmentConfig.base);
   }
 
   getSupportedAssets(): BridgeAssetConfig[] {
@@ -83,6 +276,7 @@ export class SolanaBridge {
     this.environmentConfig = getEnvironmentPreset(env);
     this.connection = new Connection(this.environmentConfig.solana.rpcUrl, 'confirmed');
     realBridgeImplementation.setSolanaConfig(this.environmentConfig.solana);
+    baseWithdrawService.setBaseConfig(this.environmentConfig.base);
   }
 
   /**
@@ -90,11 +284,18 @@ export class SolanaBridge {
    */
   async getTokenBalance(walletAddress: PublicKey, tokenMint: PublicKey): Promise<number> {
     try {
-      const tokenAccount = await getAssociatedTokenAddress(tokenMint, walletAddress);
-      const account = await getAccount(this.connection, tokenAccount);
+      const tokenProgram = await this.getTokenProgram(tokenMint);
+      const tokenAccount = await getAssociatedTokenAddress(
+        tokenMint,
+        walletAddress,
+        false,
+        tokenProgram,
+        ASSOCIATED_TOKEN_PROGRAM_ID
+      );
+      const account = await getAccount(this.connection, tokenAccount, undefined, tokenProgram);
       
       // Get the mint info to determine the correct decimals
-      const mintInfo = await getMint(this.connection, tokenMint);
+      const mintInfo = await getMint(this.connection, tokenMint, undefined, tokenProgram);
       const decimals = mintInfo.decimals;
       
       return Number(account.amount) / Math.pow(10, decimals);
@@ -104,6 +305,98 @@ export class SolanaBridge {
     }
   }
 
+  /**
+   * Token program that owns a mint: Token-2022 or the classic SPL token program.
+   */
+  async getTokenProgram(mint: PublicKey): Promise<PublicKey> {
+    const accountInfo = await this.connection.getAccountInfo(mint);
+    return accountInfo?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+  }
+
+  /**
+   * Inspect Token-2022 extensions that change what the bridge vault receives.
+   * Returns null for SOL; classic SPL mints come back with no warnings.
+   */
+  async inspectTokenExtensions(
+    assetSymbol: string,
+    amount: string,
+    overrides?: BridgeAssetOverrides
+  ): Promise<TokenExtensionReport | null> {
+    const asset = await this.resolveAssetDefinition(assetSymbol, overrides);
+    if (asset.type === 'sol' || !asset.mint) {
+      return null;
+    }
+
+    const tokenProgram = asset.tokenProgram ?? TOKEN_PROGRAM_ID;
+    const report: TokenExtensionReport = {
+      tokenProgram,
+      isToken2022: tokenProgram.equals(TOKEN_2022_PROGRAM_ID),
+      warnings: [],
+    };
+    if (!report.isToken2022) {
+      return report;
+    }
+
+    const amountInBaseUnits = this.parseAmountToUnits(amount, asset.decimals);
+    const mintInfo = await getMint(this.connection, asset.mint, undefined, tokenProgram);
+
+    const feeConfig = getTransferFeeConfig(mintInfo);
+    if (feeConfig) {
+      const { epoch } = await this.connection.getEpochInfo();
+      const fee = calculateEpochFee(feeConfig, BigInt(epoch), amountInBaseUnits);
+      const activeFee =
+        BigInt(epoch) >= feeConfig.newerTransferFee.epoch
+          ? feeConfig.newerTransferFee
+          : feeConfig.olderTransferFee;
+      report.transferFee = {
+        basisPoints: activeFee.transferFeeBasisPoints,
+        maximumFee: activeFee.maximumFee,
+        fee,
+        received: amountInBaseUnits - fee,
+      };
+      if (fee > BigInt(0)) {
+        report.warnings.push(
+          `${asset.label} charges a ${activeFee.transferFeeBasisPoints / 100}% transfer fee: the bridge vault receives ${formatUnits(
+            amountInBaseUnits - fee,
+            asset.decimals
+          )} of ${amount} (${formatUnits(fee, asset.decimals)} withheld).`
+        );
+      }
+    }
+
+    const transferHook = getTransferHook(mintInfo);
+    if (transferHook && !transferHook.programId.equals(PublicKey.default)) {
+      report.transferHookProgram = transferHook.programId;
+      report.warnings.push(
+        `${asset.label} has a transfer hook (${transferHook.programId.toBase58()}); the bridge does not pass hook accounts, so the transfer may fail.`
+      );
+    }
+
+    const vault = realBridgeImplementation.getTokenVaultAddress(asset.mint, asset.remoteAddress);
+    const vaultInfo = await this.connection.getAccountInfo(vault);
+    if (vaultInfo && !vaultInfo.owner.equals(tokenProgram)) {
+      report.warnings.push(
+        `Token vault ${vault.toBase58()} is owned by ${vaultInfo.owner.toBase58()}, not the mint's token program.`
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Recent priority fee for bridge transactions, in micro-lamports per compute unit.
+   */
+  async estimatePriorityFee(): Promise<bigint> {
+    return realBridgeImplementation.estimatePriorityFee();
+  }
+
+  /**
+   * Squads v4 vault used in multisig mode, with its threshold and next proposal index.
+   */
+  async getMultisigVault(address: PublicKey, vaultIndex = 0): Promise<SquadsVault> {
+    return squadsMultisigService.getVault(this.connection, address, vaultIndex);
+  }
+
   /**
    * Get SOL balance for a wallet
    */
@@ -145,7 +438,7 @@ export class SolanaBridge {
     walletAddress: PublicKey,
     amount: number,
     destinationAddress: string,
-    signTransaction: (transaction: Transaction) => Promise<Transaction>
+    signTransaction: TransactionSigner
   ): Promise<string> {
     return this.bridge({
       walletAddress,
@@ -158,16 +451,317 @@ export class SolanaBridge {
 
   /**
    * Bridge any supported asset (SOL or SPL) to Base.
+   * In multisig mode the signature is the proposal's; the bridge message only exists once
+   * the vault transaction executes, so it is not tracked.
    */
   async bridge(options: BridgeExecutionOptions): Promise<string> {
+    const { signTransaction, onPrepared } = options;
+    const prepared = await this.prepareBridge(options);
+    onPrepared?.(prepared);
+
+    const signature = await realBridgeImplementation.submitBridgeTransaction(prepared, signTransaction);
+
+    if (prepared.proposal) {
+      console.log(`Squads proposal submitted: ${signature}`);
+      return signature;
+    }
+    console.log(`Bridge transaction submitted: ${signature}`);
+    bridgeTracker.record(signature, this.environmentKey, prepared.message);
+    return signature;
+  }
+
+  /**
+   * Bridge several independent transfers from one wallet, packing as many as fit into each
+   * transaction; every bridge has its own salt, so they do not conflict. All transactions are
+   * signed up front and then sent in order, one after another. Results line up with `bridges`:
+   * if any bridge fails to build nothing is signed, and once a transaction fails to land the
+   * bridges after it are marked skipped.
+   */
+  async bridgeMany({
+    walletAddress,
+    bridges,
+    signTransaction,
+    signAllTransactions,
+    onPacked,
+  }: BridgeBatchOptions): Promise<BridgeBatchResult[]> {
+    const results: BridgeBatchResult[] = bridges.map(() => ({}));
+    // Marks every bridge without an outcome as skipped
+    const skipRest = () => {
+      results.forEach((result, index) => {
+        if (!result.signature && !result.error) {
+          results[index] = { skipped: true };
+        }
+      });
+      return results;
+    };
+
+    const sets: BridgeInstructionSet[] = [];
+    let solRequired = BigInt(0);
+    const splRequired = new Map<string, { asset: BridgeAssetDetails; amount: bigint }>();
+    for (let index = 0; index < bridges.length; index += 1) {
+      try {
+        const params = await this.resolveBridgeParams({ ...bridges[index], walletAddress });
+        sets.push(await realBridgeImplementation.buildBridgeInstructions(params));
+        if (params.asset.type === 'sol') {
+          solRequired += params.amount;
+        } else {
+          const mint = (params.asset.mint as PublicKey).toBase58();
+          const entry = splRequired.get(mint) ?? { asset: params.asset, amount: BigInt(0) };
+          splRequired.set(mint, { ...entry, amount: entry.amount + params.amount });
+        }
+      } catch (error) {
+        results[index].error = error;
+        return skipRest();
+      }
+    }
+    // Each bridge passed its own balance check; together they may still overdraw the wallet
+    if (solRequired > BigInt(0)) {
+      await this.ensureSolBalance(walletAddress, solRequired);
+    }
+    for (const { asset, amount } of Array.from(splRequired.values())) {
+      await this.ensureSplBalance(walletAddress, asset, amount);
+    }
+
+    // Only neighbours with the same compute budget share a transaction, so the order is kept
+    const runs: { computeBudget?: ComputeBudgetSettings; indexes: number[] }[] = [];
+    bridges.forEach(({ computeBudget }, index) => {
+      const last = runs[runs.length - 1];
+      if (
+        last &&
+        last.computeBudget?.unitLimit === computeBudget?.unitLimit &&
+        last.computeBudget?.microLamports === computeBudget?.microLamports
+      ) {
+        last.indexes.push(index);
+      } else {
+        runs.push({ computeBudget, indexes: [index] });
+      }
+    });
+
+    const packed: PackedBridgeTransaction[] = [];
+    for (const { computeBudget, indexes } of runs) {
+      const runSets = indexes.map((index) => sets[index]);
+      const groups = await realBridgeImplementation.packBridgeInstructions(walletAddress, runSets, computeBudget);
+      for (const group of groups) {
+        const groupSets = group.map((position) => runSets[position]);
+        const groupIndexes = group.map((position) => indexes[position]);
+        try {
+          packed.push({
+            ...(await realBridgeImplementation.compileTransaction(
+              walletAddress,
+              groupSets.flatMap((set) => set.instructions),
+              this.scaleComputeBudget(computeBudget, group.length)
+            )),
+            bridges: groupIndexes,
+            messages: groupSets.map((set) => set.message),
+          });
+        } catch (error) {
+          groupIndexes.forEach((index) => {
+            results[index].error = error;
+          });
+          return skipRest();
+        }
+      }
+    }
+    onPacked?.(packed);
+
+    const transactions = packed.map(({ transaction }) => transaction);
+    let signed: typeof transactions;
+    if (signAllTransactions) {
+      signed = await signAllTransactions(transactions);
+    } else {
+      signed = [];
+      for (const transaction of transactions) {
+        signed.push(await signTransaction(transaction));
+      }
+    }
+
+    // One at a time, so the bridges land in order and nothing goes out after a failure
+    for (let position = 0; position < signed.length; position += 1) {
+      const { bridges: indexes, messages, lastValidBlockHeight } = packed[position];
+      let signature: string;
+      try {
+        signature = await transactionSender.sendAndConfirm(this.connection, signed[position], {
+          lastValidBlockHeight,
+        });
+      } catch (error) {
+        indexes.forEach((index) => {
+          results[index] = { transaction: position, error };
+        });
+        return skipRest();
+      }
+      indexes.forEach((index, offset) => {
+        results[index] = { transaction: position, signature, message: messages[offset] };
+        bridgeTracker.record(signature, this.environmentKey, messages[offset]);
+      });
+    }
+    console.log(`Batch bridge submitted: ${bridges.length} bridges in ${packed.length} transaction(s)`);
+    return results;
+  }
+
+  /**
+   * Run the full bridge pipeline but simulate the transaction instead of signing it.
+   */
+  async simulateBridge(options: BridgeSimulationOptions): Promise<BridgeSimulationResult> {
+    return realBridgeImplementation.simulateBridgeTransaction(await this.prepareBridge(options));
+  }
+
+  /**
+   * Build the bridge transaction for an external signer (cold wallet, multisig) without signing it.
+   * The connected wallet stays the fee payer and signer; the blockhash limits how long signing may take.
+   */
+  async exportBridge(options: BridgeSimulationOptions): Promise<ExportedBridgeTransaction> {
+    const prepared = await this.prepareBridge(options);
+    const { transaction, lastValidBlockHeight, size, addressLookupTables, message } = prepared;
+    const { accounts, instructions } = realBridgeImplementation.describeTransaction(
+      transaction,
+      addressLookupTables
+    );
+
+    const summary: ExportedBridgeSummary = {
+      environment: this.environmentKey,
+      feePayer: options.walletAddress.toBase58(),
+      recentBlockhash: transaction.message.recentBlockhash,
+      lastValidBlockHeight,
+      bytes: size.bytes,
+      salt: message.salt,
+      outgoingMessage: message.outgoingMessage.toBase58(),
+      messageToRelay: message.messageToRelay.toBase58(),
+      signers: accounts.filter((account) => account.isSigner).map((account) => account.pubkey.toBase58()),
+      instructions: instructions.map(({ programId, dataLength, decoded }) => ({
+        programId: programId.toBase58(),
+        dataLength,
+        decoded: decoded ? this.toJsonSafe(decoded) : null,
+      })),
+    };
+
+    return {
+      base64: Buffer.from(transaction.serialize()).toString('base64'),
+      summary,
+    };
+  }
+
+  /**
+   * Broadcast a transaction exported with `bridge --export` once it was signed externally.
+   * Bridge messages are recorded for `status` tracking like regular bridges.
+   */
+  async submitSigned(base64: string): Promise<string> {
+    const trimmed = base64.trim();
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed)) {
+      throw new Error('Signed transaction must be base64.');
+    }
+
+    const { signature, message } = await realBridgeImplementation.submitSignedTransaction(
+      Buffer.from(trimmed, 'base64')
+    );
+    console.log(`Signed transaction submitted: ${signature}`);
+    if (message) {
+      bridgeTracker.record(signature, this.environmentKey, message);
+    }
+    return signature;
+  }
+
+  /**
+   * Turn `max`, `<n>%` and `all-but <amount>` into an exact amount from the live balance.
+   * SOL keeps back the estimated bridge fees, the outgoing message + message-to-relay rent and
+   * the wallet's own rent-exempt minimum, so the bridge does not fail for lack of lamports.
+   */
+  async resolveAmount({ owner, amount, assetSymbol, overrides, fee }: BridgeAmountOptions): Promise<ResolvedBridgeAmount> {
+    const spec = amount.trim().toLowerCase();
+    const asset = await this.resolveAssetDefinition(assetSymbol, overrides);
+
+    let balance: bigint;
+    let spendable: bigint;
+    let reserved: bigint | undefined;
+    if (asset.type === 'sol') {
+      const [lamports, estimate, keepAlive] = await Promise.all([
+        this.connection.getBalance(owner),
+        this.estimateBridgeFee({ ...fee, assetType: 'sol' }),
+        this.connection.getMinimumBalanceForRentExemption(0),
+      ]);
+      balance = BigInt(lamports);
+      reserved = estimate.total + BigInt(keepAlive);
+      spendable = balance - reserved;
+    } else {
+      balance = await this.getSplBalance(owner, asset);
+      spendable = balance;
+    }
+
+    let baseUnits: bigint;
+    if (spec === 'max') {
+      baseUnits = spendable;
+    } else if (spec.endsWith('%')) {
+      // Hundredths of a percent, so 12.5% works
+      const basisPoints = parseUnits(spec.slice(0, -1), 2);
+      const share = (balance * basisPoints) / BigInt(10000);
+      baseUnits = share < spendable ? share : spendable;
+    } else if (spec.startsWith('all-but')) {
+      const keep = this.parseAmountToUnits(spec.slice('all-but'.length), asset.decimals);
+      baseUnits = spendable - keep;
+    } else {
+      throw new Error(`Invalid amount "${amount}". Use a number, max, <n>% or all-but <amount>.`);
+    }
+
+    if (baseUnits <= BigInt(0)) {
+      throw new Error(
+        `Nothing to bridge: ${asset.label} balance is ${formatUnits(balance, asset.decimals)}${
+          reserved !== undefined ? ` and ${formatUnits(reserved, 9)} SOL is needed for fees and rent` : ''
+        }.`
+      );
+    }
+
+    return {
+      amount: formatUnits(baseUnits, asset.decimals),
+      baseUnits,
+      balance,
+      decimals: asset.decimals,
+      reserved,
+    };
+  }
+
+  /**
+   * Resolve the destination and asset, check balances and build the unsigned bridge transaction.
+   */
+  private async prepareBridge(
+    options: BridgeSimulationOptions
+  ): Promise<PreparedBridge> {
+    const { walletAddress, computeBudget, multisig } = options;
+    const params = await this.resolveBridgeParams(options);
+    if (!multisig) {
+      return realBridgeImplementation.createBridgeTransaction(params);
+    }
+
+    const { instructions, message } = await realBridgeImplementation.buildBridgeInstructions(params);
+    const proposal = await squadsMultisigService.createProposal(
+      this.connection,
+      multisig.address,
+      multisig.vaultIndex ?? 0,
+      { member: walletAddress, instructions, memo: `bridge ${message.salt}` }
+    );
+    console.info('[terminally-onchain] squads proposal:', proposal.proposal.toBase58());
+    return {
+      ...(await realBridgeImplementation.compileTransaction(walletAddress, proposal.instructions, computeBudget)),
+      message,
+      proposal,
+    };
+  }
+
+  /**
+   * Resolve the destination, asset and amount and check the owner's balance.
+   * In multisig mode the vault is the owner.
+   */
+  private async resolveBridgeParams(
+    options: BridgeSimulationOptions
+  ): Promise<CreateBridgeTransactionParams> {
     const {
       walletAddress,
       amount,
       assetSymbol,
       destinationAddress,
-      signTransaction,
       overrides,
       callOptions,
+      gasLimit,
+      computeBudget,
+      multisig,
     } = options;
 
     const trimmedAmount = amount.trim();
@@ -184,33 +778,241 @@ export class SolanaBridge {
     const asset = await this.resolveAssetDefinition(assetSymbol, overrides);
     const amountInBaseUnits = this.parseAmountToUnits(trimmedAmount, asset.decimals);
 
+    // In multisig mode the vault funds and signs the bridge; the wallet pays for the proposal
+    const vault = multisig
+      ? await squadsMultisigService.getVault(this.connection, multisig.address, multisig.vaultIndex)
+      : null;
+    const owner = vault?.vault ?? walletAddress;
+
     let tokenAccount: PublicKey | undefined;
     if (asset.type === 'sol') {
-      await this.ensureSolBalance(walletAddress, amountInBaseUnits);
+      await this.ensureSolBalance(owner, amountInBaseUnits);
     } else {
-      ({ tokenAccount } = await this.ensureSplBalance(walletAddress, asset, amountInBaseUnits));
+      ({ tokenAccount } = await this.ensureSplBalance(owner, asset, amountInBaseUnits));
     }
 
-    const transaction = await realBridgeImplementation.createBridgeTransaction({
-      walletAddress,
+    return {
+      walletAddress: owner,
       amount: amountInBaseUnits,
       destinationAddress: resolvedAddress,
       asset,
       tokenAccount,
       call: callOptions,
+      gasLimit,
+      computeBudget,
+    };
+  }
+
+  /**
+   * A packed transaction needs the compute of all its bridges. Without any budget instruction
+   * the runtime already grants a default per instruction, so only explicit budgets are scaled.
+   */
+  private scaleComputeBudget(computeBudget: ComputeBudgetSettings | undefined, bridges: number) {
+    if (!computeBudget || bridges === 1 || (computeBudget.unitLimit === undefined && !computeBudget.microLamports)) {
+      return computeBudget;
+    }
+    return {
+      ...computeBudget,
+      unitLimit: Math.min(
+        BRIDGE_CONFIG.maxComputeUnitLimit,
+        (computeBudget.unitLimit ?? BRIDGE_CONFIG.defaultComputeUnitLimit) * bridges
+      ),
+    };
+  }
+
+  /**
+   * Estimate the Base gas an attached call needs by running eth_estimateGas from the Twin.
+   * Adds 20% headroom for the relayer's message execution overhead.
+   */
+  async estimateCallGasLimit(call: BaseContractCall, twinAddress: string): Promise<bigint> {
+    if (call.type !== 'call' || !call.target) {
+      throw new Error(`Gas auto-estimation only supports plain calls, not ${call.type}.`);
+    }
+    this.assertEvmAddress(twinAddress, 'twin');
+
+    const estimate = await baseWithdrawService.getPublicClient().estimateGas({
+      account: twinAddress as `0x${string}`,
+      to: call.target as `0x${string}`,
+      data: call.data as `0x${string}` | undefined,
+      value: call.value ? parseUnits(call.value, 18) : undefined,
     });
 
-    const signature = await realBridgeImplementation.submitBridgeTransaction(
-      transaction,
+    return (estimate * BigInt(12)) / BigInt(10);
+  }
+
+  /**
+   * Bridge SOL or SPL back from Base to Solana.
+   * The Base-side bridgeToken call is sent either by the user's Twin (via a Solana bridge_call
+   * message) or directly from an injected EVM wallet.
+   */
+  async withdraw(options: WithdrawExecutionOptions): Promise<WithdrawSubmission> {
+    const {
       walletAddress,
-      signTransaction
-    );
+      amount,
+      assetSymbol,
+      destinationAddress,
+      source,
+      twinAddress,
+      signTransaction,
+      overrides,
+    } = options;
 
-    console.log(`Bridge transaction submitted: ${signature}`);
-    return signature;
+    const trimmedAmount = amount.trim();
+    if (!trimmedAmount) {
+      throw new Error('Amount is required.');
+    }
+
+    let destination: PublicKey;
+    try {
+      destination = new PublicKey(destinationAddress.trim());
+    } catch {
+      throw new Error(`Invalid Solana destination "${destinationAddress}". Expected a base58 address.`);
+    }
+
+    const asset = await this.resolveAssetDefinition(assetSymbol, overrides);
+    const amountInBaseUnits = this.parseAmountToUnits(trimmedAmount, asset.decimals);
+
+    // SPL transfers are credited to the destination's associated token account
+    const recipient =
+      asset.type === 'sol'
+        ? destination
+        : await getAssociatedTokenAddress(
+            asset.mint as PublicKey,
+            destination,
+            true,
+            asset.tokenProgram ?? TOKEN_PROGRAM_ID,
+            ASSOCIATED_TOKEN_PROGRAM_ID
+          );
+
+    const transfer: WithdrawTransfer = {
+      localToken: asset.remoteAddress as `0x${string}`,
+      remoteToken: toBytes32Hex(asset.type === 'sol' ? NATIVE_SOL_PUBKEY : (asset.mint as PublicKey)),
+      to: toBytes32Hex(recipient),
+      remoteAmount: amountInBaseUnits,
+    };
+
+    const fromBlock = await baseWithdrawService.getBlockNumber();
+
+    if (source === 'evm') {
+      const { hash, sender } = await baseWithdrawService.sendFromEvmWallet(transfer);
+      console.log(`Withdraw submitted on Base: ${hash}`);
+      return {
+        source,
+        sender,
+        fromBlock,
+        asset,
+        recipient,
+        amount: amountInBaseUnits,
+        transfer,
+        baseTxHash: hash,
+      };
+    }
+
+    if (!twinAddress) {
+      throw new Error('Twin address is not resolved yet. Retry in a moment or use --from evm.');
+    }
+    this.assertEvmAddress(twinAddress, 'twin');
+
+    const prepared = await realBridgeImplementation.createBridgeCallTransaction({
+      walletAddress,
+      call: baseWithdrawService.buildTwinCall(transfer),
+    });
+
+    const signature = await realBridgeImplementation.submitBridgeTransaction(prepared, signTransaction);
+
+    console.log(`Withdraw call submitted via Twin: ${signature}`);
+    bridgeTracker.record(signature, this.environmentKey, prepared.message);
+    return {
+      source,
+      sender: twinAddress,
+      fromBlock,
+      asset,
+      recipient,
+      amount: amountInBaseUnits,
+      transfer,
+      signature,
+    };
+  }
+
+  /**
+   * Follow a withdraw through Base and Solana, relaying the message on Solana once proven.
+   */
+  async trackWithdraw(
+    submission: WithdrawSubmission,
+    {
+      walletAddress,
+      signTransaction,
+      onProgress,
+    }: {
+      walletAddress: PublicKey;
+      signTransaction: TransactionSigner;
+      onProgress?: (progress: WithdrawProgress) => void;
+    }
+  ): Promise<void> {
+    const deadline = Date.now() + BRIDGE_CONFIG.withdrawTimeout;
+    const wait = () =>
+      new Promise((resolve) => setTimeout(resolve, BRIDGE_CONFIG.withdrawPollInterval));
+
+    let message: InitiatedMessage | null = null;
+    while (!message) {
+      if (Date.now() > deadline) {
+        throw new Error(`No Base message from ${submission.sender} found before timeout.`);
+      }
+      message = await baseWithdrawService.findInitiatedMessage(submission.sender, submission.fromBlock, {
+        transactionHash: submission.baseTxHash,
+        transfer: submission.transfer,
+      });
+      if (!message) {
+        await wait();
+      }
+    }
+    onProgress?.({ stage: 'initiated', message });
+
+    let reportedProven = false;
+    while (Date.now() <= deadline) {
+      const state = await realBridgeImplementation.getIncomingMessageState(message.messageHash);
+      if (state.executed) {
+        onProgress?.({ stage: 'executed' });
+        return;
+      }
+
+      if (state.proven) {
+        if (!reportedProven) {
+          onProgress?.({ stage: 'proven', incomingMessage: state.address });
+          reportedProven = true;
+        }
+
+        const relayTransaction = await realBridgeImplementation.createRelayMessageTransaction({
+          walletAddress,
+          messageHash: message.messageHash,
+          asset: submission.asset,
+          recipient: submission.recipient,
+        });
+        const signature = await realBridgeImplementation.submitBridgeTransaction(
+          relayTransaction,
+          signTransaction
+        );
+        onProgress?.({ stage: 'executed', signature });
+        return;
+      }
+
+      await wait();
+    }
+
+    throw new Error(`Message ${message.messageHash} was not proven on Solana before timeout.`);
+  }
+
+  /**
+   * Plain JSON copy of a value: bigints become strings, public keys base58 (via PublicKey.toJSON).
+   */
+  private toJsonSafe(value: unknown): unknown {
+    return JSON.parse(
+      JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item))
+    );
   }
 
   private static readonly BASE58_MINT_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+  private static readonly LAMPORTS_PER_SIGNATURE = 5000;
 
   private async resolveAssetDefinition(
     symbol: string,
@@ -287,6 +1089,32 @@ export class SolanaBridge {
     };
   }
 
+  /**
+   * Token balance available to bridge: the associated account, or the largest other account of the mint.
+   */
+  private async getSplBalance(owner: PublicKey, asset: BridgeAssetDetails): Promise<bigint> {
+    if (!asset.mint) {
+      throw new Error('Missing mint address for SPL asset.');
+    }
+
+    const tokenProgram = asset.tokenProgram ?? TOKEN_PROGRAM_ID;
+    const tokenAccount = await getAssociatedTokenAddress(
+      asset.mint,
+      owner,
+      true,
+      tokenProgram,
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    );
+    try {
+      return (await getAccount(this.connection, tokenAccount, undefined, tokenProgram)).amount;
+    } catch {
+      const { value } = await this.connection.getTokenAccountsByOwner(owner, { mint: asset.mint });
+      return value
+        .map(({ pubkey, account }) => unpackAccount(pubkey, account, tokenProgram).amount)
+        .reduce((max, amount) => (amount > max ? amount : max), BigInt(0));
+    }
+  }
+
   private parseAmountToUnits(amount: string, decimals: number): bigint {
     try {
       const normalized = amount.trim();
@@ -322,72 +1150,50 @@ export class SolanaBridge {
     }
 
     const tokenProgram = asset.tokenProgram ?? TOKEN_PROGRAM_ID;
+    // Off-curve owners are allowed so multisig vaults resolve their token accounts
     const tokenAccount = await getAssociatedTokenAddress(
       asset.mint,
       walletAddress,
-      false,
+      true,
       tokenProgram,
       ASSOCIATED_TOKEN_PROGRAM_ID
     );
+    const required = formatUnits(amountRequired, asset.decimals);
 
     let account;
     try {
       account = await getAccount(this.connection, tokenAccount, undefined, tokenProgram);
     } catch {
-      return { tokenAccount };
-    }
-
-    try {
-      const balance = BigInt(account.amount.toString());
-      if (balance < amountRequired) {
-        // Continue even if balance is low to surface on-chain error
+      // No ATA: tokens may still sit in another account the wallet owns
+      const { value } = await this.connection.getTokenAccountsByOwner(walletAddress, { mint: asset.mint });
+      const accounts = value.map(({ pubkey, account: info }) => unpackAccount(pubkey, info, tokenProgram));
+      const funded = accounts.find((candidate) => candidate.amount >= amountRequired);
+      if (funded) {
+        console.log(`Bridging from non-associated token account ${funded.address.toBase58()}`);
+        return { tokenAccount: funded.address };
       }
-    } catch {
-      // Continue to allow on-chain error to surface
-    }
 
-    return { tokenAccount };
-  }
+      const held = accounts.reduce((sum, candidate) => sum + candidate.amount, BigInt(0));
+      if (held > BigInt(0)) {
+        throw new Error(
+          `Insufficient ${asset.label} balance. You have ${formatUnits(held, asset.decimals)} ${asset.label} spread across other token accounts but need ${required} ${asset.label} in one.`
+        );
+      }
 
-  private async createAtaAndFetchAccount({
-    walletAddress,
-    asset,
-    tokenAccount,
-    signTransaction,
-  }: {
-    walletAddress: PublicKey;
-    asset: BridgeAssetDetails;
-    tokenAccount: PublicKey;
-    signTransaction: (transaction: Transaction) => Promise<Transaction>;
-  }) {
-    const tokenProgram = asset.tokenProgram ?? TOKEN_PROGRAM_ID;
-    try {
-      const ix = createAssociatedTokenAccountInstruction(
-        walletAddress,
-        tokenAccount,
-        walletAddress,
-        asset.mint as PublicKey,
-        tokenProgram,
-        ASSOCIATED_TOKEN_PROGRAM_ID
+      // Creating the ATA here would not help: a new account is empty, so there is still nothing to bridge
+      throw new Error(
+        `No ${asset.label} token account found (expected ${tokenAccount.toBase58()}), so there are no tokens to bridge. Fund the wallet with at least ${required} ${asset.label} first.`
       );
+    }
 
-      const tx = new Transaction().add(ix);
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      tx.feePayer = walletAddress;
-      tx.recentBlockhash = blockhash;
-
-      const signedTx = await signTransaction(tx);
-      const sig = await this.connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: false,
-      });
-      await this.connection.confirmTransaction(sig, 'confirmed');
-    } catch (error) {
-      // Re-throw to allow upstream handling and on-chain logs to surface
-      throw error;
+    const balance = BigInt(account.amount.toString());
+    if (balance < amountRequired) {
+      throw new Error(
+        `Insufficient ${asset.label} balance. You have ${formatUnits(balance, asset.decimals)} ${asset.label} but need ${required} ${asset.label}.`
+      );
     }
 
-    // Re-fetch account after creation
-    return getAccount(this.connection, tokenAccount, undefined, tokenProgram);
+    return { tokenAccount };
   }
 
   private assertEvmAddress(address: string, label: string) {
@@ -424,26 +1230,169 @@ export class SolanaBridge {
   }
 
   /**
-   * Get recent bridge transactions for a wallet
+   * Get recent bridge transactions for a wallet by scanning its signatures on-chain.
+   * `limit` caps the number of signatures scanned; page with `nextBefore`.
    */
-  async getBridgeHistory(): Promise<BridgeTransfer[]> {
-    // This would query the bridge program's transaction history
-    // For now, return empty array as placeholder
-    return [];
+  async getBridgeHistory(
+    walletAddress: PublicKey,
+    { limit = 25, before }: BridgeHistoryOptions = {}
+  ): Promise<BridgeHistoryPage> {
+    const signatures = await this.connection.getSignaturesForAddress(walletAddress, {
+      limit,
+      before,
+    });
+    if (signatures.length === 0) {
+      return { transfers: [], scanned: 0 };
+    }
+
+    const transactions = await this.connection.getTransactions(
+      signatures.map(({ signature }) => signature),
+      { maxSupportedTransactionVersion: 0 }
+    );
+
+    const { solanaBridge: bridgeProgram, baseRelayerProgram } = this.environmentConfig.solana;
+    const decimalsByMint = new Map<string, number>();
+    const transfers: BridgeTransfer[] = [];
+
+    for (let i = 0; i < signatures.length; i += 1) {
+      const info = signatures[i];
+      const tx = transactions[i];
+      if (!tx) {
+        continue;
+      }
+
+      const accountKeys = tx.transaction.message.getAccountKeys({
+        accountKeysFromLookups: tx.meta?.loadedAddresses,
+      });
+
+      for (const instruction of tx.transaction.message.compiledInstructions) {
+        const programId = accountKeys.get(instruction.programIdIndex);
+        if (!programId || !(programId.equals(bridgeProgram) || programId.equals(baseRelayerProgram))) {
+          continue;
+        }
+
+        const accounts = instruction.accountKeyIndexes
+          .map((index) => accountKeys.get(index))
+          .filter((key): key is PublicKey => !!key);
+        const decoded = realBridgeImplementation.decodeBridgeInstruction(
+          programId,
+          instruction.data,
+          accounts
+        );
+        if (!decoded || decoded.kind === 'pay_for_relay') {
+          continue;
+        }
+
+        let asset = 'SOL';
+        let tokenAddress = 'sol';
+        let decimals = 9;
+        let amountBaseUnits = BigInt(0);
+        let destinationAddress = '';
+        let remoteToken: string | undefined;
+
+        if (decoded.kind === 'bridge_call') {
+          asset = 'CALL';
+          tokenAddress = '';
+          destinationAddress = decoded.call.target ?? '';
+        } else {
+          amountBaseUnits = decoded.amount;
+          destinationAddress = decoded.to;
+          remoteToken = decoded.remoteToken;
+          if (decoded.kind === 'bridge_spl' && decoded.mint) {
+            tokenAddress = decoded.mint.toBase58();
+            asset = this.environmentConfig.assets.find(
+              (candidate) => candidate.mintAddress === tokenAddress
+            )?.symbol.toUpperCase() ?? tokenAddress;
+            decimals = await this.getMintDecimals(decoded.mint, decimalsByMint);
+          }
+        }
+
+        transfers.push({
+          amount: formatUnits(amountBaseUnits, decimals),
+          amountBaseUnits,
+          asset,
+          destinationAddress,
+          tokenAddress,
+          remoteToken,
+          call: decoded.call,
+          salt: decoded.salt,
+          txHash: info.signature,
+          status: info.err ? 'failed' : info.confirmationStatus === 'processed' ? 'pending' : 'confirmed',
+          timestamp: (info.blockTime ?? 0) * 1000,
+        });
+      }
+    }
+
+    return {
+      transfers,
+      scanned: signatures.length,
+      nextBefore: signatures.length === limit ? signatures[signatures.length - 1].signature : undefined,
+    };
+  }
+
+  private async getMintDecimals(mint: PublicKey, cache: Map<string, number>): Promise<number> {
+    const key = mint.toBase58();
+    const cached = cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let decimals = 0;
+    try {
+      const accountInfo = await this.connection.getAccountInfo(mint);
+      const mintInfo = await getMint(this.connection, mint, undefined, accountInfo?.owner);
+      decimals = mintInfo.decimals;
+    } catch {
+      // Fall back to raw base units if the mint cannot be read
+    }
+    cache.set(key, decimals);
+    return decimals;
   }
 
   /**
-   * Estimate bridge fees
+   * Estimate bridge fees in lamports: Base relay gas priced from the relayer config,
+   * rent for the outgoing message + message-to-relay accounts, and signature fees.
    */
-  async estimateBridgeFee(): Promise<{ baseFee: number; gasFee: number; total: number }> {
-    // This would calculate actual bridge fees based on current gas prices and bridge configuration
-    const baseFee = 0.001; // 0.001 SOL base fee
-    const gasFee = 0.002; // Estimated gas fee for Base transaction
-    
+  async estimateBridgeFee({
+    assetType = 'sol',
+    gasLimit = DEFAULT_GAS_LIMIT,
+    callDataLength = 0,
+    computeBudget,
+  }: BridgeFeeEstimateOptions = {}): Promise<BridgeFeeEstimate> {
+    const gasConfig = await realBridgeImplementation.getRelayerGasConfig();
+    if (gasConfig.maxGasLimitPerMessage > BigInt(0) && gasLimit > gasConfig.maxGasLimitPerMessage) {
+      throw new Error(
+        `Gas limit ${gasLimit} exceeds the relayer maximum of ${gasConfig.maxGasLimitPerMessage}.`
+      );
+    }
+
+    const scalerDp = gasConfig.gasCostScalerDp > BigInt(0) ? gasConfig.gasCostScalerDp : BigInt(1);
+    const relayFee = (gasLimit * gasConfig.currentBaseFee * gasConfig.gasCostScaler) / scalerDp;
+
+    const sizes = realBridgeImplementation.getMessageAccountSizes(assetType, callDataLength);
+    const [outgoingMessageRent, messageToRelayRent] = await Promise.all([
+      this.connection.getMinimumBalanceForRentExemption(sizes.outgoingMessage),
+      this.connection.getMinimumBalanceForRentExemption(sizes.messageToRelay),
+    ]);
+
+    const signatureFee = BigInt(SolanaBridge.LAMPORTS_PER_SIGNATURE);
+    const microLamports = computeBudget?.microLamports ?? BigInt(0);
+    const unitLimit = computeBudget?.unitLimit ?? BRIDGE_CONFIG.defaultComputeUnitLimit;
+    // Priority fee is charged on the requested unit limit, rounded up to whole lamports
+    const priorityFee = (microLamports * BigInt(unitLimit) + BigInt(999999)) / BigInt(1000000);
+    const total =
+      relayFee + BigInt(outgoingMessageRent) + BigInt(messageToRelayRent) + signatureFee + priorityFee;
+
     return {
-      baseFee,
-      gasFee,
-      total: baseFee + gasFee
+      gasLimit,
+      relayFee,
+      outgoingMessageRent: BigInt(outgoingMessageRent),
+      messageToRelayRent: BigInt(messageToRelayRent),
+      signatureFee,
+      priorityFee,
+      computeUnitLimit: unitLimit,
+      microLamportsPerUnit: microLamports,
+      total,
     };
   }
 }
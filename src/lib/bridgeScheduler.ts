@@ -0,0 +1,142 @@
+import type { PublicKey } from '@solana/web3.js';
+import type { BridgeEnvironment } from './constants';
+
+export interface ScheduledBridgeJob {
+  id: number;
+  /** Terminal command as typed, re-parsed on every run */
+  command: string;
+  intervalMs: number;
+  environment: BridgeEnvironment;
+  /** Wallet that scheduled the job; only that wallet runs it */
+  owner: string;
+  createdAt: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+}
+
+const STORAGE_KEY = 'terminally-onchain:scheduled-bridges';
+
+const INTERVAL_UNITS: [string, number][] = [
+  ['d', 24 * 60 * 60 * 1000],
+  ['h', 60 * 60 * 1000],
+  ['m', 60 * 1000],
+  ['s', 1000],
+];
+
+/**
+ * `24h`, `90m`, `1d12h` style label for an interval.
+ */
+export function formatInterval(intervalMs: number): string {
+  let remaining = intervalMs;
+  const parts: string[] = [];
+  INTERVAL_UNITS.forEach(([unit, size]) => {
+    const count = Math.floor(remaining / size);
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      remaining -= count * size;
+    }
+  });
+  return parts.join('') || '0s';
+}
+
+/**
+ * Recurring bridge commands stored in the browser, one list per environment.
+ * Jobs only run while the app is open; a run missed while it was closed fires once
+ * on the next check instead of catching up on every missed interval.
+ * Every call re-reads storage so several open tabs share one job list: a job another tab
+ * ran or removed is seen immediately instead of being run twice or written back.
+ */
+export class BridgeScheduler {
+  add(
+    environment: BridgeEnvironment,
+    owner: PublicKey,
+    command: string,
+    intervalMs: number,
+    now = Date.now()
+  ): ScheduledBridgeJob {
+    const jobs = this.load();
+    const job: ScheduledBridgeJob = {
+      id: jobs.reduce((max, entry) => Math.max(max, entry.id), 0) + 1,
+      command,
+      intervalMs,
+      environment,
+      owner: owner.toBase58(),
+      createdAt: now,
+      nextRunAt: now + intervalMs,
+    };
+    jobs.push(job);
+    this.persist(jobs);
+    return job;
+  }
+
+  list(environment: BridgeEnvironment): ScheduledBridgeJob[] {
+    return this.load().filter((job) => job.environment === environment);
+  }
+
+  remove(environment: BridgeEnvironment, id: number): ScheduledBridgeJob {
+    const jobs = this.load();
+    const index = jobs.findIndex((job) => job.environment === environment && job.id === id);
+    if (index < 0) {
+      throw new Error(`No scheduled job #${id}. Run 'schedule list' to see job ids.`);
+    }
+    const [removed] = jobs.splice(index, 1);
+    this.persist(jobs);
+    return removed;
+  }
+
+  /**
+   * The most overdue job the wallet owns, if any.
+   */
+  nextDue(environment: BridgeEnvironment, owner: PublicKey, now = Date.now()): ScheduledBridgeJob | null {
+    const due = this.list(environment)
+      .filter((job) => job.owner === owner.toBase58() && job.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+    return due[0] ?? null;
+  }
+
+  /**
+   * Move the job to its next interval. Called before the run so a declined or
+   * failed bridge is not retried until the next interval.
+   */
+  markRun(id: number, now = Date.now()): ScheduledBridgeJob | null {
+    const jobs = this.load();
+    const job = jobs.find((entry) => entry.id === id);
+    if (!job) {
+      return null;
+    }
+    job.lastRunAt = now;
+    job.nextRunAt = now + job.intervalMs;
+    this.persist(jobs);
+    return job;
+  }
+
+  private load(): ScheduledBridgeJob[] {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        return JSON.parse(raw) as ScheduledBridgeJob[];
+      }
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to read scheduled bridges', error);
+    }
+    return [];
+  }
+
+  private persist(jobs: ScheduledBridgeJob[]) {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to persist scheduled bridges', error);
+    }
+  }
+}
+
+export const bridgeScheduler = new BridgeScheduler();
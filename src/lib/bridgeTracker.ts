@@ -0,0 +1,395 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { createPublicClient, encodeAbiParameters, http, keccak256, type PublicClient } from 'viem';
+import { base as baseMainnet, baseSepolia } from 'viem/chains';
+import {
+  BRIDGE_CONFIG,
+  UI_CONFIG,
+  getEnvironmentPreset,
+  type BridgeEnvironment,
+} from './constants';
+import type { BridgeMessageAccounts } from './realBridgeImplementation';
+
+export type BridgeLifecycleStage =
+  | 'submitted'
+  | 'relayed-paid'
+  | 'validated'
+  | 'executed'
+  | 'failed';
+
+export interface TrackedBridge {
+  signature: string;
+  environment: BridgeEnvironment;
+  salt: string;
+  outgoingMessage: string;
+  messageToRelay: string;
+  createdAt: number;
+}
+
+export interface BridgeTimelineEntry {
+  stage: BridgeLifecycleStage;
+  reached: boolean;
+  detail?: string;
+}
+
+export interface BridgeStatus {
+  bridge: TrackedBridge;
+  stage: BridgeLifecycleStage | null;
+  messageHash?: string;
+  timeline: BridgeTimelineEntry[];
+}
+
+const STORAGE_KEY = 'terminally-onchain:tracked-bridges';
+const MAX_TRACKED_BRIDGES = 50;
+
+const BRIDGE_STATUS_ABI = [
+  {
+    name: 'successes',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'messageHash', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'failures',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'messageHash', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
+
+const BRIDGE_VALIDATOR_ABI = [
+  {
+    name: 'validMessages',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'messageHash', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+] as const;
+
+// Base-side shapes of the relayed message payload
+const CALL_COMPONENT = {
+  type: 'tuple',
+  components: [
+    { name: 'ty', type: 'uint8' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint128' },
+    { name: 'data', type: 'bytes' },
+  ],
+} as const;
+
+const TRANSFER_COMPONENT = {
+  type: 'tuple',
+  components: [
+    { name: 'localToken', type: 'address' },
+    { name: 'remoteToken', type: 'bytes32' },
+    { name: 'to', type: 'bytes32' },
+    { name: 'remoteAmount', type: 'uint64' },
+  ],
+} as const;
+
+/**
+ * Follows Solana → Base messages after submission.
+ * Records the salt and PDAs of every bridge and derives its lifecycle stage from
+ * the Solana accounts and the Base bridge / validator contracts.
+ */
+export class BridgeTracker {
+  private bridges: TrackedBridge[] | null = null;
+  private connections = new Map<BridgeEnvironment, Connection>();
+  private baseClients = new Map<BridgeEnvironment, PublicClient>();
+
+  record(
+    signature: string,
+    environment: BridgeEnvironment,
+    message: BridgeMessageAccounts
+  ): TrackedBridge {
+    const entry: TrackedBridge = {
+      signature,
+      environment,
+      salt: message.salt,
+      outgoingMessage: message.outgoingMessage.toBase58(),
+      messageToRelay: message.messageToRelay.toBase58(),
+      createdAt: Date.now(),
+    };
+
+    // Keyed by salt: a batched transaction carries several bridges under one signature
+    const bridges = this.load().filter((bridge) => bridge.salt !== entry.salt);
+    this.bridges = [entry, ...bridges].slice(0, MAX_TRACKED_BRIDGES);
+    this.persist();
+    return entry;
+  }
+
+  list(): TrackedBridge[] {
+    return [...this.load()];
+  }
+
+  /**
+   * Look up a tracked bridge by transaction signature or 0x-prefixed salt.
+   */
+  find(query: string): TrackedBridge | undefined {
+    const normalized = query.trim();
+    const salt = normalized.toLowerCase();
+    return this.load().find(
+      (bridge) => bridge.signature === normalized || bridge.salt.toLowerCase() === salt
+    );
+  }
+
+  async getStatus(bridge: TrackedBridge): Promise<BridgeStatus> {
+    const connection = this.getConnection(bridge.environment);
+    const preset = getEnvironmentPreset(bridge.environment);
+    const timeline: BridgeTimelineEntry[] = [];
+
+    const signatureStatus = await connection.getSignatureStatus(bridge.signature, {
+      searchTransactionHistory: true,
+    });
+    const confirmation = signatureStatus.value;
+    if (confirmation?.err) {
+      timeline.push({ stage: 'submitted', reached: true, detail: 'transaction failed on Solana' });
+      timeline.push({ stage: 'failed', reached: true, detail: JSON.stringify(confirmation.err) });
+      return { bridge, stage: 'failed', timeline };
+    }
+
+    const submitted = !!confirmation?.confirmationStatus;
+    timeline.push({
+      stage: 'submitted',
+      reached: submitted,
+      detail: confirmation?.confirmationStatus ?? 'not found yet',
+    });
+
+    const [outgoingInfo, relayInfo] = await connection.getMultipleAccountsInfo([
+      new PublicKey(bridge.outgoingMessage),
+      new PublicKey(bridge.messageToRelay),
+    ]);
+
+    timeline.push({
+      stage: 'relayed-paid',
+      reached: !!relayInfo,
+      detail: relayInfo ? `messageToRelay ${bridge.messageToRelay}` : 'no relay payment found',
+    });
+
+    if (!outgoingInfo) {
+      timeline.push({ stage: 'validated', reached: false, detail: 'outgoing message not found' });
+      timeline.push({ stage: 'executed', reached: false });
+      return { bridge, stage: this.latestStage(timeline), timeline };
+    }
+
+    const messageHash = this.computeMessageHash(
+      new PublicKey(bridge.outgoingMessage),
+      outgoingInfo.data
+    );
+    const client = this.getBaseClient(bridge.environment);
+
+    const [validated, succeeded, failed] = await Promise.all([
+      client.readContract({
+        address: preset.base.bridgeValidator as `0x${string}`,
+        abi: BRIDGE_VALIDATOR_ABI,
+        functionName: 'validMessages',
+        args: [messageHash],
+      }),
+      client.readContract({
+        address: preset.base.bridge as `0x${string}`,
+        abi: BRIDGE_STATUS_ABI,
+        functionName: 'successes',
+        args: [messageHash],
+      }),
+      client.readContract({
+        address: preset.base.bridge as `0x${string}`,
+        abi: BRIDGE_STATUS_ABI,
+        functionName: 'failures',
+        args: [messageHash],
+      }),
+    ]);
+
+    timeline.push({
+      stage: 'validated',
+      reached: validated || succeeded || failed,
+      detail: `${preset.base.name} validator`,
+    });
+
+    if (failed) {
+      timeline.push({ stage: 'failed', reached: true, detail: 'message execution reverted on Base' });
+    } else {
+      timeline.push({ stage: 'executed', reached: succeeded });
+    }
+
+    return { bridge, stage: this.latestStage(timeline), messageHash, timeline };
+  }
+
+  /**
+   * Poll a bridge until it reaches `until` (executed by default), fails, or the bridge timeout elapses.
+   * `onStage` fires once per newly reached stage.
+   */
+  async watch(
+    bridge: TrackedBridge,
+    onStage: (stage: BridgeLifecycleStage, status: BridgeStatus) => void,
+    until: BridgeLifecycleStage = 'executed'
+  ): Promise<BridgeStatus> {
+    const deadline = Date.now() + BRIDGE_CONFIG.bridgeTimeout;
+    const seen = new Set<BridgeLifecycleStage>();
+
+    while (true) {
+      let status: BridgeStatus | null = null;
+      try {
+        status = await this.getStatus(bridge);
+      } catch (error) {
+        console.warn('[terminally-onchain] bridge status poll failed', error);
+      }
+
+      if (status) {
+        status.timeline
+          .filter((entry) => entry.reached && !seen.has(entry.stage))
+          .forEach((entry) => {
+            seen.add(entry.stage);
+            onStage(entry.stage, status!);
+          });
+
+        if (
+          seen.has(until) ||
+          status.stage === 'executed' ||
+          status.stage === 'failed' ||
+          Date.now() > deadline
+        ) {
+          return status;
+        }
+      } else if (Date.now() > deadline) {
+        throw new Error(`Unable to fetch status for ${bridge.signature}.`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, UI_CONFIG.refreshInterval));
+    }
+  }
+
+  private latestStage(timeline: BridgeTimelineEntry[]): BridgeLifecycleStage | null {
+    const reached = timeline.filter((entry) => entry.reached);
+    return reached.length ? reached[reached.length - 1].stage : null;
+  }
+
+  /**
+   * Mirrors Bridge.getMessageHash on Base for a Solana outgoing message:
+   * keccak256(abi.encode(nonce, outgoingMessage, keccak256(abi.encode(sender, ty, data)))).
+   * Account layout: 8-byte discriminator, u64 nonce, 32-byte sender, Borsh `Message` enum.
+   */
+  private computeMessageHash(outgoingMessage: PublicKey, data: Buffer): `0x${string}` {
+    const nonce = data.readBigUInt64LE(8);
+    const sender = `0x${data.subarray(16, 48).toString('hex')}` as `0x${string}`;
+    const { ty, payload } = this.encodeIncomingMessage(data.subarray(48));
+    const innerHash = keccak256(
+      encodeAbiParameters(
+        [{ type: 'bytes32' }, { type: 'uint8' }, { type: 'bytes' }],
+        [sender, ty, payload]
+      )
+    );
+    return keccak256(
+      encodeAbiParameters(
+        [{ type: 'uint64' }, { type: 'bytes32' }, { type: 'bytes32' }],
+        [nonce, `0x${outgoingMessage.toBuffer().toString('hex')}`, innerHash]
+      )
+    );
+  }
+
+  /**
+   * Re-encode the Borsh message the way the relayer hands it to Base:
+   * Call (0) → abi.encode(Call), Transfer (1) → abi.encode(Transfer),
+   * TransferAndCall (2) → abi.encode(Transfer, Call).
+   */
+  private encodeIncomingMessage(message: Buffer): { ty: number; payload: `0x${string}` } {
+    if (message[0] === 0) {
+      return { ty: 0, payload: encodeAbiParameters([CALL_COMPONENT], [this.decodeCall(message.subarray(1))]) };
+    }
+    if (message[0] !== 1) {
+      throw new Error(`Unknown outgoing message variant ${message[0]}.`);
+    }
+
+    // Transfer: to [20], local_token (Solana mint) [32], remote_token (Base token) [20], amount u64, Option<Call>
+    const transfer = {
+      localToken: `0x${message.subarray(53, 73).toString('hex')}` as `0x${string}`,
+      remoteToken: `0x${message.subarray(21, 53).toString('hex')}` as `0x${string}`,
+      // Base reads the recipient as bytes20(to), so the address is left-aligned
+      to: `0x${message.subarray(1, 21).toString('hex')}${'00'.repeat(12)}` as `0x${string}`,
+      remoteAmount: message.readBigUInt64LE(73),
+    };
+    if (message[81] === 0) {
+      return { ty: 1, payload: encodeAbiParameters([TRANSFER_COMPONENT], [transfer]) };
+    }
+    return {
+      ty: 2,
+      payload: encodeAbiParameters(
+        [TRANSFER_COMPONENT, CALL_COMPONENT],
+        [transfer, this.decodeCall(message.subarray(82))]
+      ),
+    };
+  }
+
+  // Borsh Call: ty u8, to [20], value u128 LE, data Vec<u8>
+  private decodeCall(buffer: Buffer) {
+    let value = BigInt(0);
+    for (let i = 15; i >= 0; i -= 1) {
+      value = (value << BigInt(8)) | BigInt(buffer[21 + i]);
+    }
+    const length = buffer.readUInt32LE(37);
+    return {
+      ty: buffer[0],
+      to: `0x${buffer.subarray(1, 21).toString('hex')}` as `0x${string}`,
+      value,
+      data: `0x${buffer.subarray(41, 41 + length).toString('hex')}` as `0x${string}`,
+    };
+  }
+
+  private getConnection(environment: BridgeEnvironment): Connection {
+    let connection = this.connections.get(environment);
+    if (!connection) {
+      connection = new Connection(getEnvironmentPreset(environment).solana.rpcUrl, 'confirmed');
+      this.connections.set(environment, connection);
+    }
+    return connection;
+  }
+
+  private getBaseClient(environment: BridgeEnvironment): PublicClient {
+    let client = this.baseClients.get(environment);
+    if (!client) {
+      const { base } = getEnvironmentPreset(environment);
+      client = createPublicClient({
+        chain: base.chainId === baseMainnet.id ? baseMainnet : baseSepolia,
+        transport: http(base.rpcUrl),
+      }) as PublicClient;
+      this.baseClients.set(environment, client);
+    }
+    return client;
+  }
+
+  private load(): TrackedBridge[] {
+    if (this.bridges) {
+      return this.bridges;
+    }
+
+    this.bridges = [];
+    if (typeof window === 'undefined') {
+      return this.bridges;
+    }
+
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        this.bridges = JSON.parse(raw) as TrackedBridge[];
+      }
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to read tracked bridges', error);
+    }
+    return this.bridges;
+  }
+
+  private persist() {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bridges ?? []));
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to persist tracked bridges', error);
+    }
+  }
+}
+
+export const bridgeTracker = new BridgeTracker();
@@ -0,0 +1,93 @@
+import type { PublicKey } from '@solana/web3.js';
+import type { BridgeEnvironment } from './constants';
+
+const STORAGE_KEY = 'terminally-onchain:command-history';
+const MAX_COMMANDS = 500;
+
+/**
+ * Typed terminal lines, kept in the browser per wallet and environment (oldest first).
+ * Entries are numbered from 1 for `history cmd` and `!n`.
+ */
+export class CommandHistory {
+  private histories: Record<string, string[]> | null = null;
+
+  record(environment: BridgeEnvironment, owner: PublicKey | null, command: string) {
+    const trimmed = command.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    const histories = this.load();
+    const key = this.key(environment, owner);
+    const entries = histories[key] ?? [];
+    // Like a shell with ignoredups: repeating the last line does not add an entry
+    if (entries[entries.length - 1] === trimmed) {
+      return;
+    }
+    histories[key] = [...entries, trimmed].slice(-MAX_COMMANDS);
+    this.persist();
+  }
+
+  list(environment: BridgeEnvironment, owner: PublicKey | null): string[] {
+    return [...(this.load()[this.key(environment, owner)] ?? [])];
+  }
+
+  /**
+   * Resolve `!!` (last command) or `!n` (entry n, 1-based).
+   */
+  resolve(environment: BridgeEnvironment, owner: PublicKey | null, index?: number): string {
+    const entries = this.list(environment, owner);
+    if (index === undefined) {
+      const last = entries[entries.length - 1];
+      if (!last) {
+        throw new Error('!!: no previous command.');
+      }
+      return last;
+    }
+
+    const entry = entries[index - 1];
+    if (!entry) {
+      throw new Error(`!${index}: no such command. Run 'history cmd' to see numbers.`);
+    }
+    return entry;
+  }
+
+  private key(environment: BridgeEnvironment, owner: PublicKey | null) {
+    return `${environment}:${owner?.toBase58() ?? 'no-wallet'}`;
+  }
+
+  private load(): Record<string, string[]> {
+    if (this.histories) {
+      return this.histories;
+    }
+
+    this.histories = {};
+    if (typeof window === 'undefined') {
+      return this.histories;
+    }
+
+    try {
+      const raw = window.localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        this.histories = JSON.parse(raw) as Record<string, string[]>;
+      }
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to read command history', error);
+    }
+    return this.histories;
+  }
+
+  private persist() {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.histories ?? {}));
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to persist command history', error);
+    }
+  }
+}
+
+export const commandHistory = new CommandHistory();
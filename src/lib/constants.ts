@@ -29,6 +29,8 @@ export interface SolanaClusterConfig {
   solanaBridge: PublicKey;
   baseRelayerProgram: PublicKey;
   gasFeeReceiver: PublicKey;
+  /** Address lookup table holding the static bridge accounts, used to shrink v0 transactions */
+  addressLookupTable?: PublicKey;
   cdpUsdc?: PublicKey;
   bridgeUsdc?: PublicKey;
   spl?: PublicKey;
@@ -68,6 +70,9 @@ const MAINNET_GAS_RECEIVER =
   process.env.NEXT_PUBLIC_SOLANA_MAINNET_GAS_RECEIVER ||
   "4m2jaKbJ4pDZw177BmLPMLsztPF5eVFo2fvxPgajdBNz";
 
+const DEVNET_LOOKUP_TABLE = process.env.NEXT_PUBLIC_SOLANA_DEVNET_LOOKUP_TABLE;
+const MAINNET_LOOKUP_TABLE = process.env.NEXT_PUBLIC_SOLANA_MAINNET_LOOKUP_TABLE;
+
 if (!process.env.NEXT_PUBLIC_BASE_SEPOLIA_WSOL) {
   console.log("[terminally-onchain] using default Base Sepolia WSOL address");
 }
@@ -90,6 +95,7 @@ const DEVNET_SOLANA_CONFIG: SolanaClusterConfig = {
   solanaBridge: new PublicKey("7c6mteAcTXaQ1MFBCrnuzoZVTTAEfZwa6wgy4bqX3KXC"),
   baseRelayerProgram: new PublicKey("56MBBEYAtQAdjT4e1NzHD8XaoyRSTvfgbSVVcEcHj51H"),
   gasFeeReceiver: new PublicKey("AFs1LCbodhvwpgX3u3URLsud6R1XMSaMiQ5LtXw4GKYT"),
+  addressLookupTable: DEVNET_LOOKUP_TABLE ? new PublicKey(DEVNET_LOOKUP_TABLE) : undefined,
   cdpUsdc: new PublicKey("4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU"),
   bridgeUsdc: new PublicKey("8KkQRERXdASmXqeWw7sPFB56wLxyHMKc9NPDW64EEL31"),
   spl: new PublicKey("8KkQRERXdASmXqeWw7sPFB56wLxyHMKc9NPDW64EEL31"),
@@ -104,6 +110,7 @@ const MAINNET_SOLANA_CONFIG: SolanaClusterConfig = {
   solanaBridge: new PublicKey("HNCne2FkVaNghhjKXapxJzPaBvAKDG1Ge3gqhZyfVWLM"),
   baseRelayerProgram: new PublicKey("g1et5VenhfJHJwsdJsDbxWZuotD5H4iELNG61kS4fb9"),
   gasFeeReceiver: new PublicKey(MAINNET_GAS_RECEIVER),
+  addressLookupTable: MAINNET_LOOKUP_TABLE ? new PublicKey(MAINNET_LOOKUP_TABLE) : undefined,
 };
 
 const DEVNET_BASE_CONFIG: BaseNetworkConfig = {
@@ -201,6 +208,21 @@ export const BRIDGE_CONFIG = {
   estimatedGasLimit: 200000,
   requiredConfirmations: 12,
   bridgeTimeout: 5 * 60 * 1000,
+  // Base → Solana messages wait for an output root on Solana before they can be relayed
+  withdrawTimeout: 60 * 60 * 1000,
+  withdrawPollInterval: 15000,
+  // Resend cadence while waiting for a Solana transaction to land
+  rebroadcastInterval: 2000,
+  // Compute unit limit requested when a priority fee is set without --cu-limit
+  defaultComputeUnitLimit: 400000,
+  maxComputeUnitLimit: 1400000,
+  // Percentile of recent prioritization fees used by --priority-fee auto
+  priorityFeePercentile: 75,
+  // How often due scheduled bridges are checked while the app is open
+  schedulePollInterval: 30000,
+  minScheduleInterval: 60 * 1000,
+  // Bridges packed into one transaction by a batch; each one needs its own share of compute
+  maxBridgesPerTransaction: 3,
 };
 
 // UI Constants
@@ -0,0 +1,158 @@
+import {
+  encodeAbiParameters,
+  encodeDeployData,
+  getContractAddress,
+  pad,
+  type Abi,
+  type AbiParameter,
+} from 'viem';
+import { parseAbiArgument } from './abiArgs';
+import { loadJsonSource } from './abiRegistry';
+import { baseWithdrawService } from './baseWithdraw';
+import type { BaseContractCall } from './realBridgeImplementation';
+
+export interface DeployCallOptions {
+  /** 0x creation bytecode, or an artifact (inline JSON, URL, or public/abis name) with bytecode + abi */
+  source: string;
+  salt?: string;
+  ctorArgs?: string[];
+  value?: string;
+}
+
+export interface PreparedDeployment {
+  call: BaseContractCall;
+  initCode: `0x${string}`;
+  salt?: `0x${string}`;
+  constructorSignature?: string;
+}
+
+export interface PredictedDeployment {
+  address: `0x${string}`;
+  nonce?: bigint;
+}
+
+/**
+ * Builds create / create2 calls for the Twin and predicts the resulting contract address.
+ */
+export class ContractDeployer {
+  async prepare(options: DeployCallOptions): Promise<PreparedDeployment> {
+    const { bytecode, abi } = await this.loadArtifact(options.source);
+    const ctorArgs = options.ctorArgs ?? [];
+    const constructorItem = abi?.find((item) => item.type === 'constructor');
+    const inputs: readonly AbiParameter[] =
+      constructorItem?.type === 'constructor' ? constructorItem.inputs : [];
+
+    if (ctorArgs.length > 0 && !abi) {
+      throw new Error('--ctor-args needs an artifact with an ABI, not raw bytecode.');
+    }
+    if (ctorArgs.length !== inputs.length) {
+      throw new Error(
+        `constructor expects ${inputs.length} args, got ${ctorArgs.length}.`
+      );
+    }
+
+    const initCode = abi
+      ? encodeDeployData({
+          abi,
+          bytecode,
+          args: inputs.map((param, idx) => parseAbiArgument(ctorArgs[idx], param, `ctor arg ${idx + 1}`)),
+        })
+      : bytecode;
+    const constructorSignature = inputs.length
+      ? `constructor(${inputs.map((param) => param.type).join(',')})`
+      : undefined;
+
+    if (options.salt === undefined) {
+      return {
+        call: { type: 'create', value: options.value, data: initCode },
+        initCode,
+        constructorSignature,
+      };
+    }
+
+    const salt = this.normalizeSalt(options.salt);
+    // The Twin decodes create2 payloads as abi.encode(bytes32 salt, bytes initCode)
+    const data = encodeAbiParameters([{ type: 'bytes32' }, { type: 'bytes' }], [salt, initCode]);
+    return {
+      call: { type: 'create2', value: options.value, data },
+      initCode,
+      salt,
+      constructorSignature,
+    };
+  }
+
+  /**
+   * Predict the deployed address for a Twin-executed create / create2.
+   * CREATE uses the Twin's current nonce, so other Twin deployments landing first will shift it.
+   */
+  async predictAddress(
+    deployment: PreparedDeployment,
+    twinAddress: string
+  ): Promise<PredictedDeployment> {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(twinAddress)) {
+      throw new Error(`Invalid twin address "${twinAddress}".`);
+    }
+    const from = twinAddress as `0x${string}`;
+
+    if (deployment.salt) {
+      return {
+        address: getContractAddress({
+          opcode: 'CREATE2',
+          from,
+          salt: deployment.salt,
+          bytecode: deployment.initCode,
+        }),
+      };
+    }
+
+    const count = await baseWithdrawService
+      .getPublicClient()
+      .getTransactionCount({ address: from });
+    // Contract nonces start at 1 (EIP-161), including a Twin that is not deployed yet
+    const nonce = BigInt(Math.max(count, 1));
+    return {
+      address: getContractAddress({ opcode: 'CREATE', from, nonce }),
+      nonce,
+    };
+  }
+
+  private normalizeSalt(raw: string): `0x${string}` {
+    const value = raw.trim();
+    if (!/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+      throw new Error('--salt must be hex with at most 32 bytes.');
+    }
+    const even = value.length % 2 === 0 ? value : `0x0${value.slice(2)}`;
+    return pad(even as `0x${string}`, { size: 32 });
+  }
+
+  private async loadArtifact(source: string): Promise<{ bytecode: `0x${string}`; abi?: Abi }> {
+    const trimmed = source.trim();
+    if (/^0x[0-9a-fA-F]*$/.test(trimmed)) {
+      return { bytecode: this.assertBytecode(trimmed) };
+    }
+
+    const raw = (await loadJsonSource(trimmed)) as {
+      abi?: unknown;
+      bytecode?: string | { object?: string };
+    } | null;
+    // Hardhat stores bytecode as a string, Foundry as { object }
+    const bytecode = typeof raw?.bytecode === 'string' ? raw.bytecode : raw?.bytecode?.object;
+    if (!bytecode) {
+      throw new Error('Artifact has no "bytecode" field.');
+    }
+
+    return {
+      bytecode: this.assertBytecode(bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`),
+      abi: Array.isArray(raw?.abi) ? (raw!.abi as Abi) : undefined,
+    };
+  }
+
+  private assertBytecode(value: string): `0x${string}` {
+    if (!/^0x([0-9a-fA-F]{2})+$/.test(value)) {
+      throw new Error('Deploy bytecode must be non-empty, even-length hex.');
+    }
+    return value as `0x${string}`;
+  }
+}
+
+export const contractDeployer = new ContractDeployer();
@@ -35,3 +35,30 @@ export function deriveMessageToRelayPda(
   );
   return pda;
 }
+
+export function deriveIncomingMessagePda(
+  messageHash: Uint8Array | string,
+  bridgeProgramId: PublicKey
+): PublicKey {
+  const h = normalizeSalt(messageHash);
+  const [pda] = PublicKey.findProgramAddressSync(
+    [Buffer.from("incoming_message"), h],
+    bridgeProgramId
+  );
+  return pda;
+}
+
+export function deriveTokenVaultPda(
+  mint: PublicKey,
+  remoteToken: string,
+  bridgeProgramId: PublicKey
+): PublicKey {
+  const h = remoteToken.startsWith("0x") ? remoteToken.slice(2) : remoteToken;
+  if (h.length !== 40) throw new Error(`remote token must be 20 bytes (40 hex chars). got ${h.length}`);
+  // Same seeds for classic SPL and Token-2022 mints; the vault's owner follows the mint's program
+  const [pda] = PublicKey.findProgramAddressSync(
+    [Buffer.from("token_vault"), mint.toBuffer(), Buffer.from(h, "hex")],
+    bridgeProgramId
+  );
+  return pda;
+}
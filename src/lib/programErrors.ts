@@ -0,0 +1,237 @@
+import { SendTransactionError, SystemProgram } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import type { SolanaClusterConfig } from './constants';
+
+export interface DecodedProgramError {
+  /** Readable summary, e.g. `bridge: token vault is not initialized ... [AccountNotInitialized 3012 · token_vault]` */
+  message: string;
+  program: string;
+  programId?: string;
+  code?: number;
+  name?: string;
+  account?: string;
+  /** Log lines of the failing instruction */
+  logs: string[];
+}
+
+interface AnchorLogError {
+  name: string;
+  code: number;
+  message: string;
+  account?: string;
+}
+
+const MAX_RELEVANT_LOGS = 12;
+
+const ANCHOR_LOG_PATTERN =
+  /AnchorError (?:caused by account: (\w+)\. |thrown in [^.]+\.rs:\d+\. |occurred\. )?Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/;
+const FAILED_LOG_PATTERN = /^Program (\w+) failed: (.*)$/;
+const CUSTOM_ERROR_PATTERN = /custom program error: (0x[0-9a-fA-F]+)/;
+
+// Anchor framework errors the bridge programs can hit, worded for terminal users
+const ANCHOR_ERRORS: Record<number, string> = {
+  100: 'instruction missing; the program does not recognise this call',
+  101: 'unknown instruction; the deployed program may be a different version',
+  102: 'instruction data could not be decoded',
+  2000: 'an account that must be writable was passed read-only',
+  2001: 'an account does not belong to the expected parent account',
+  2002: 'a required signer is missing',
+  2003: 'an account constraint failed',
+  2004: 'an account has the wrong owner',
+  2006: 'an account address does not match its expected seeds',
+  2012: 'an account address does not match the expected one',
+  2014: 'the token account holds a different mint',
+  2015: 'the token account belongs to a different owner',
+  3001: 'an account is missing its discriminator',
+  3002: 'an account has the wrong type',
+  3003: 'an account could not be decoded',
+  3005: 'not enough accounts were passed',
+  3007: 'an account is owned by the wrong program',
+  3010: 'an account must sign',
+  3012: 'an account the program expects is not initialized',
+};
+
+const TOKEN_ERRORS: Record<number, string> = {
+  0: 'account is not rent exempt',
+  1: 'insufficient token balance',
+  2: 'invalid mint',
+  3: 'token account is for a different mint',
+  4: 'token account owner does not match',
+  5: 'mint has a fixed supply',
+  6: 'account already in use',
+  17: 'token account is frozen',
+};
+
+const SYSTEM_ERRORS: Record<number, string> = {
+  0: 'account already in use',
+  1: 'insufficient SOL for this transfer',
+};
+
+// Bridge and relayer program errors (Anchor codes from 6000), matched by name per program.
+// The programs' IDLs are not vendored here, so there is no code table to match on yet; the
+// hints only apply to errors those two programs raise, never to other programs' 6000+ codes.
+const NAMED_HINTS: { programs: string[]; pattern: RegExp; message: string }[] = [
+  { programs: ['bridge'], pattern: /paused/i, message: 'the bridge is paused; transfers are disabled until it resumes' },
+  {
+    programs: ['bridge', 'relayer'],
+    pattern: /gas.?limit/i,
+    message: 'the gas limit is above the relayer maximum per message; lower --gas-limit',
+  },
+  {
+    programs: ['bridge'],
+    pattern: /(call|data|payload).*(too.?(large|long|big)|size|length)/i,
+    message: 'the attached Base call is too large for the bridge; shrink the call data',
+  },
+  {
+    programs: ['bridge', 'relayer'],
+    pattern: /(insufficient|not.?enough).*(fund|balance|lamport)/i,
+    message: 'insufficient funds to cover the transfer and fees',
+  },
+  {
+    programs: ['bridge'],
+    pattern: /remote.?token|token.?pair/i,
+    message: '--remote does not match the Base token registered for this mint',
+  },
+];
+
+/**
+ * Turns failed bridge / relayer transactions into readable terminal errors.
+ * Sources: SendTransactionError (preflight and landed failures) or simulation error + logs.
+ */
+export class ProgramErrorDecoder {
+  decode(error: unknown, config: SolanaClusterConfig, logs?: string[]): DecodedProgramError | null {
+    const lines = logs ?? (error instanceof SendTransactionError ? error.logs : undefined) ?? [];
+    const raw = typeof error === 'string' ? error : error instanceof Error ? error.message : JSON.stringify(error);
+
+    const failedIndex = lines.findIndex((line) => FAILED_LOG_PATTERN.test(line));
+    const failed = failedIndex >= 0 ? lines[failedIndex].match(FAILED_LOG_PATTERN) : null;
+    const anchor = this.findAnchorError(lines, failedIndex);
+    const code = anchor?.code ?? this.findCustomCode(failed?.[2] ?? raw);
+
+    if (!failed && code === undefined) {
+      return null;
+    }
+
+    const programId = failed?.[1];
+    const program = this.labelProgram(programId, config);
+    const detail = this.describe(program, programId, code, anchor) ?? failed?.[2] ?? raw;
+    const tags = [anchor?.name ?? (code !== undefined ? 'error' : undefined), code]
+      .filter((part) => part !== undefined)
+      .join(' ');
+
+    return {
+      message: `${program}: ${detail}${tags || anchor?.account ? ` [${[tags, anchor?.account].filter(Boolean).join(' · ')}]` : ''}`,
+      program,
+      programId,
+      code,
+      name: anchor?.name,
+      account: anchor?.account,
+      logs: this.relevantLogs(lines, failedIndex),
+    };
+  }
+
+  private describe(
+    program: string,
+    programId: string | undefined,
+    code: number | undefined,
+    anchor: AnchorLogError | null
+  ): string | undefined {
+    if (anchor?.account === 'token_vault') {
+      if (anchor.code === 3012) {
+        return 'token vault is not initialized; this mint has no Base twin registered for that --remote token';
+      }
+      if (anchor.code === 2006) {
+        return 'token vault does not match; check --remote for this mint';
+      }
+    }
+
+    // Anchor numbers program-defined errors from 6000
+    if (anchor && anchor.code >= 6000) {
+      const hint = NAMED_HINTS.find(
+        ({ programs, pattern }) =>
+          programs.includes(program) && (pattern.test(anchor.name) || pattern.test(anchor.message))
+      );
+      if (hint) {
+        return hint.message;
+      }
+    }
+    if (code === undefined) {
+      return anchor?.message;
+    }
+
+    if (programId === TOKEN_PROGRAM_ID.toBase58() || programId === TOKEN_2022_PROGRAM_ID.toBase58()) {
+      return TOKEN_ERRORS[code];
+    }
+    if (programId === SystemProgram.programId.toBase58()) {
+      return SYSTEM_ERRORS[code];
+    }
+    if (ANCHOR_ERRORS[code]) {
+      return anchor?.account ? `${ANCHOR_ERRORS[code]} (${anchor.account})` : ANCHOR_ERRORS[code];
+    }
+    return anchor?.message ?? `custom error ${code} (0x${code.toString(16)}) from the ${program} program`;
+  }
+
+  private findAnchorError(lines: string[], failedIndex: number): AnchorLogError | null {
+    const scope = failedIndex >= 0 ? lines.slice(0, failedIndex) : lines;
+    for (let index = scope.length - 1; index >= 0; index -= 1) {
+      const match = scope[index].match(ANCHOR_LOG_PATTERN);
+      if (match) {
+        return { account: match[1], name: match[2], code: Number(match[3]), message: match[4] };
+      }
+    }
+    return null;
+  }
+
+  private findCustomCode(text: string): number | undefined {
+    const hex = text.match(CUSTOM_ERROR_PATTERN);
+    if (hex) {
+      return parseInt(hex[1], 16);
+    }
+    // Simulation errors arrive as JSON, e.g. {"InstructionError":[1,{"Custom":3012}]}
+    const custom = text.match(/"Custom":\s*(\d+)/);
+    return custom ? Number(custom[1]) : undefined;
+  }
+
+  private labelProgram(programId: string | undefined, config: SolanaClusterConfig): string {
+    switch (programId) {
+      case config.solanaBridge.toBase58():
+        return 'bridge';
+      case config.baseRelayerProgram.toBase58():
+        return 'relayer';
+      case TOKEN_PROGRAM_ID.toBase58():
+        return 'token program';
+      case TOKEN_2022_PROGRAM_ID.toBase58():
+        return 'token-2022 program';
+      case SystemProgram.programId.toBase58():
+        return 'system program';
+      default:
+        return programId ? `program ${programId}` : 'transaction';
+    }
+  }
+
+  /**
+   * Log lines from the failing top-level instruction's invoke up to its failure.
+   */
+  private relevantLogs(lines: string[], failedIndex: number): string[] {
+    if (failedIndex < 0) {
+      return lines.slice(-MAX_RELEVANT_LOGS);
+    }
+
+    let start = failedIndex;
+    while (start > 0 && !/ invoke \[1\]$/.test(lines[start])) {
+      start -= 1;
+    }
+    // A failing CPI is followed by its callers' failure lines
+    let end = failedIndex;
+    while (end + 1 < lines.length && FAILED_LOG_PATTERN.test(lines[end + 1])) {
+      end += 1;
+    }
+
+    return lines
+      .slice(start, end + 1)
+      .filter((line) => !/consumed \d+ of \d+ compute units/.test(line))
+      .slice(-MAX_RELEVANT_LOGS);
+  }
+}
+
+export const programErrorDecoder = new ProgramErrorDecoder();
@@ -1,20 +1,33 @@
 import {
+  AddressLookupTableAccount,
   Connection,
+  MessageV0,
+  PACKET_DATA_SIZE,
   PublicKey,
   Transaction,
   TransactionInstruction,
+  TransactionMessage,
   SystemProgram,
+  VersionedTransaction,
+  ComputeBudgetProgram,
 } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import bs58 from 'bs58';
-import { parseUnits } from 'ethers';
-import { deriveOutgoingMessagePda, deriveMessageToRelayPda, normalizeSalt } from './pdas';
+import { formatUnits, parseUnits } from 'ethers';
 import {
+  deriveIncomingMessagePda,
+  deriveMessageToRelayPda,
+  deriveOutgoingMessagePda,
+  deriveTokenVaultPda,
+  normalizeSalt,
+} from './pdas';
+import {
+  BRIDGE_CONFIG,
   DEFAULT_ENVIRONMENT,
   DEFAULT_GAS_LIMIT,
   getEnvironmentPreset,
   type SolanaClusterConfig,
 } from './constants';
+import { transactionSender } from './transactionSender';
 
 export type ContractCallType = 'call' | 'delegatecall' | 'create' | 'create2';
 
@@ -35,13 +48,120 @@ export interface BridgeAssetDetails {
   tokenProgram?: PublicKey;
 }
 
-interface CreateBridgeTransactionParams {
+export interface CreateBridgeTransactionParams {
   walletAddress: PublicKey;
   destinationAddress: string;
   amount: bigint;
   asset: BridgeAssetDetails;
   tokenAccount?: PublicKey;
   call?: BaseContractCall;
+  gasLimit?: bigint;
+  computeBudget?: ComputeBudgetSettings;
+}
+
+export interface ComputeBudgetSettings {
+  unitLimit?: number;
+  microLamports?: bigint;
+}
+
+interface CreateBridgeCallTransactionParams {
+  walletAddress: PublicKey;
+  call: BaseContractCall;
+  gasLimit?: bigint;
+}
+
+interface CreateRelayMessageTransactionParams {
+  walletAddress: PublicKey;
+  messageHash: string;
+  asset: BridgeAssetDetails;
+  recipient: PublicKey;
+}
+
+export interface BridgeMessageAccounts {
+  salt: string;
+  outgoingMessage: PublicKey;
+  messageToRelay: PublicKey;
+}
+
+/**
+ * Wallet signer accepting legacy and v0 transactions (matches the wallet adapter's signTransaction).
+ */
+export type TransactionSigner = <T extends Transaction | VersionedTransaction>(transaction: T) => Promise<T>;
+
+export type TransactionBatchSigner = <T extends Transaction | VersionedTransaction>(transactions: T[]) => Promise<T[]>;
+
+export interface TransactionSizeReport {
+  bytes: number;
+  limit: number;
+  /** Bytes left before the packet limit; each one is room for one more byte of call data */
+  remaining: number;
+  lookupTable?: PublicKey;
+}
+
+export interface CompiledBridgeTransaction {
+  transaction: VersionedTransaction;
+  /** Block height after which the blockhash expires and the transaction must be rebuilt */
+  lastValidBlockHeight: number;
+  size: TransactionSizeReport;
+  addressLookupTables: AddressLookupTableAccount[];
+}
+
+export interface PreparedBridgeTransaction extends CompiledBridgeTransaction {
+  message: BridgeMessageAccounts;
+}
+
+export interface BridgeInstructionSet {
+  instructions: TransactionInstruction[];
+  message: BridgeMessageAccounts;
+}
+
+export type DecodedBridgeInstruction =
+  | {
+      kind: 'bridge_sol' | 'bridge_spl';
+      salt: string;
+      to: string;
+      remoteToken?: string;
+      mint?: PublicKey;
+      amount: bigint;
+      call?: BaseContractCall;
+    }
+  | { kind: 'bridge_call'; salt: string; call: BaseContractCall }
+  | { kind: 'pay_for_relay'; salt: string; outgoingMessage: PublicKey; gasLimit: bigint };
+
+export interface BridgeTransactionSummary {
+  accounts: { pubkey: PublicKey; isSigner: boolean; isWritable: boolean; lookup: boolean }[];
+  instructions: {
+    programId: PublicKey;
+    dataLength: number;
+    decoded: DecodedBridgeInstruction | null;
+  }[];
+}
+
+export interface BridgeSimulationResult extends BridgeTransactionSummary {
+  success: boolean;
+  error?: string;
+  unitsConsumed?: number;
+  logs: string[];
+  size: TransactionSizeReport;
+}
+
+export interface SubmittedSignedTransaction {
+  signature: string;
+  /** Bridge message accounts when the transaction carries a bridge instruction */
+  message: BridgeMessageAccounts | null;
+}
+
+export interface RelayerGasConfig {
+  currentBaseFee: bigint;
+  gasCostScaler: bigint;
+  gasCostScalerDp: bigint;
+  maxGasLimitPerMessage: bigint;
+}
+
+export interface IncomingMessageState {
+  address: PublicKey;
+  proven: boolean;
+  executed: boolean;
 }
 
 /**
@@ -53,12 +173,23 @@ export class RealBridgeImplementation {
   private bridgeProgramId: PublicKey;
   private baseRelayerProgramId: PublicKey;
   private solanaConfig: SolanaClusterConfig;
+  private lookupTableCache: { address: string; account: AddressLookupTableAccount | null } | null = null;
   private static readonly CALL_TYPE_INDEX: Record<ContractCallType, number> = {
     call: 0,
     delegatecall: 1,
     create: 2,
     create2: 3,
   };
+  // Anchor discriminators: first 8 bytes of sha256("global:<instruction_name>")
+  private static readonly INSTRUCTION_DISCRIMINATORS = {
+    payForRelay: Buffer.from([41, 191, 218, 201, 250, 164, 156, 55]),
+    bridgeSol: Buffer.from([190, 190, 32, 158, 75, 153, 32, 86]),
+    bridgeSpl: Buffer.from([87, 109, 172, 103, 8, 187, 223, 126]),
+    bridgeCall: Buffer.from([90, 23, 83, 238, 200, 18, 111, 95]),
+    relayMessage: Buffer.from([187, 90, 182, 138, 51, 248, 175, 98]),
+  };
+  // Blocks a blockhash stays usable for
+  private static readonly MAX_BLOCKHASH_AGE = 150;
 
   constructor(config: SolanaClusterConfig = getEnvironmentPreset(DEFAULT_ENVIRONMENT).solana) {
     this.solanaConfig = config;
@@ -72,17 +203,223 @@ export class RealBridgeImplementation {
     this.connection = new Connection(config.rpcUrl, 'confirmed');
     this.bridgeProgramId = config.solanaBridge;
     this.baseRelayerProgramId = config.baseRelayerProgram;
+    this.lookupTableCache = null;
   }
 
   /**
    * Create a bridge transaction (SOL or SPL) using the deployed programs.
    */
-  async createBridgeTransaction(params: CreateBridgeTransactionParams): Promise<Transaction> {
-    if (params.asset.type === 'sol') {
-      return this.buildSolBridgeTransaction(params);
+  async createBridgeTransaction(params: CreateBridgeTransactionParams): Promise<PreparedBridgeTransaction> {
+    const { instructions, message } = await this.buildBridgeInstructions(params);
+    return {
+      ...(await this.compileTransaction(params.walletAddress, instructions, params.computeBudget)),
+      message,
+    };
+  }
+
+  /**
+   * Bridge instructions without compute budget or fee payer, for callers that wrap them
+   * (e.g. a multisig vault transaction where `walletAddress` is the vault).
+   */
+  async buildBridgeInstructions(params: CreateBridgeTransactionParams): Promise<BridgeInstructionSet> {
+    return params.asset.type === 'sol'
+      ? this.buildSolBridgeInstructions(params)
+      : this.buildSplBridgeInstructions(params);
+  }
+
+  /**
+   * Compile instructions into a v0 transaction, using the cluster's lookup table when configured.
+   * Throws before anything is signed when the transaction exceeds the packet size limit.
+   */
+  async compileTransaction(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    computeBudget?: ComputeBudgetSettings
+  ): Promise<CompiledBridgeTransaction> {
+    const lookupTable = await this.getLookupTable();
+    const addressLookupTables = lookupTable ? [lookupTable] : [];
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions: [...this.getComputeBudgetInstructions(computeBudget), ...instructions],
+    }).compileToV0Message(addressLookupTables);
+
+    const bytes = this.measureTransaction(message);
+    const size: TransactionSizeReport = {
+      bytes,
+      limit: PACKET_DATA_SIZE,
+      remaining: PACKET_DATA_SIZE - bytes,
+      lookupTable: message.addressTableLookups.length ? lookupTable?.key : undefined,
+    };
+    console.info('[terminally-onchain] tx size:', `${bytes}/${PACKET_DATA_SIZE} bytes`);
+
+    if (size.remaining < 0) {
+      throw new Error(
+        `Transaction is ${bytes} bytes, ${-size.remaining} over the ${PACKET_DATA_SIZE}-byte limit. ` +
+          `Trim at least ${-size.remaining} bytes of call data${
+            lookupTable ? '' : ' or configure an address lookup table for the bridge accounts'
+          }.`
+      );
+    }
+
+    return {
+      transaction: new VersionedTransaction(message),
+      lastValidBlockHeight,
+      size,
+      addressLookupTables,
+    };
+  }
+
+  /**
+   * Split bridge instruction sets into as few transactions as fit the packet size limit, in order.
+   * Returns indexes into `sets`, one array per transaction; a set too large on its own still gets
+   * its own entry so compileTransaction can report the overflow.
+   */
+  async packBridgeInstructions(
+    payer: PublicKey,
+    sets: BridgeInstructionSet[],
+    computeBudget?: ComputeBudgetSettings
+  ): Promise<number[][]> {
+    const lookupTable = await this.getLookupTable();
+    const addressLookupTables = lookupTable ? [lookupTable] : [];
+    const budgetInstructions = this.getComputeBudgetInstructions(computeBudget);
+
+    const fits = (indexes: number[]) => {
+      try {
+        // Only the size matters here, so any blockhash will do
+        const message = new TransactionMessage({
+          payerKey: payer,
+          recentBlockhash: PublicKey.default.toBase58(),
+          instructions: [...budgetInstructions, ...indexes.flatMap((index) => sets[index].instructions)],
+        }).compileToV0Message(addressLookupTables);
+        return this.measureTransaction(message) <= PACKET_DATA_SIZE;
+      } catch {
+        return false;
+      }
+    };
+
+    const groups: number[][] = [];
+    sets.forEach((_, index) => {
+      const current = groups[groups.length - 1];
+      if (current && current.length < BRIDGE_CONFIG.maxBridgesPerTransaction && fits([...current, index])) {
+        current.push(index);
+      } else {
+        groups.push([index]);
+      }
+    });
+    return groups;
+  }
+
+  /**
+   * Wire size of a signed v0 transaction. Computed by hand because MessageV0.serialize
+   * throws once the message outgrows the packet buffer.
+   */
+  private measureTransaction(message: MessageV0): number {
+    const shortVec = (length: number) => (length < 0x80 ? 1 : length < 0x4000 ? 2 : 3);
+    const signatures = message.header.numRequiredSignatures;
+
+    let bytes = shortVec(signatures) + signatures * 64;
+    // version prefix + header + account keys + recent blockhash
+    bytes += 1 + 3 + shortVec(message.staticAccountKeys.length) + message.staticAccountKeys.length * 32 + 32;
+    bytes += shortVec(message.compiledInstructions.length);
+    for (const instruction of message.compiledInstructions) {
+      bytes +=
+        1 +
+        shortVec(instruction.accountKeyIndexes.length) +
+        instruction.accountKeyIndexes.length +
+        shortVec(instruction.data.length) +
+        instruction.data.length;
+    }
+    bytes += shortVec(message.addressTableLookups.length);
+    for (const lookup of message.addressTableLookups) {
+      bytes +=
+        32 +
+        shortVec(lookup.writableIndexes.length) +
+        lookup.writableIndexes.length +
+        shortVec(lookup.readonlyIndexes.length) +
+        lookup.readonlyIndexes.length;
+    }
+    return bytes;
+  }
+
+  /**
+   * Fetch the configured lookup table once per cluster. A missing or unreadable table
+   * only costs transaction space, so it falls back to static account keys.
+   */
+  private async getLookupTable(): Promise<AddressLookupTableAccount | null> {
+    const address = this.solanaConfig.addressLookupTable;
+    if (!address) {
+      return null;
+    }
+    if (this.lookupTableCache?.address === address.toBase58()) {
+      return this.lookupTableCache.account;
+    }
+
+    let account: AddressLookupTableAccount | null = null;
+    try {
+      ({ value: account } = await this.connection.getAddressLookupTable(address));
+      if (!account) {
+        console.warn('[terminally-onchain] lookup table not found:', address.toBase58());
+      }
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to load lookup table', error);
+      return null;
     }
 
-    return this.buildSplBridgeTransaction(params);
+    this.lookupTableCache = { address: address.toBase58(), account };
+    return account;
+  }
+
+  /**
+   * ComputeBudget instructions to prepend. A priority fee without an explicit unit limit
+   * requests BRIDGE_CONFIG.defaultComputeUnitLimit so the fee is charged on a known budget.
+   */
+  private getComputeBudgetInstructions(settings?: ComputeBudgetSettings): TransactionInstruction[] {
+    if (!settings || (settings.unitLimit === undefined && !settings.microLamports)) {
+      return [];
+    }
+
+    const instructions: TransactionInstruction[] = [];
+    const unitLimit =
+      settings.unitLimit ?? (settings.microLamports ? BRIDGE_CONFIG.defaultComputeUnitLimit : undefined);
+    if (unitLimit !== undefined) {
+      instructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: unitLimit }));
+    }
+    if (settings.microLamports) {
+      instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: settings.microLamports }));
+    }
+    return instructions;
+  }
+
+  /**
+   * Derive a priority fee (micro-lamports per CU) from recent fees paid by transactions
+   * that lock the bridge's hot writable accounts.
+   */
+  async estimatePriorityFee(): Promise<bigint> {
+    const [bridgeAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bridge')],
+      this.bridgeProgramId
+    );
+    const [cfgAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('config')],
+      this.baseRelayerProgramId
+    );
+
+    const samples = await this.connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: [bridgeAddress, cfgAddress, this.solanaConfig.gasFeeReceiver],
+    });
+    if (samples.length === 0) {
+      return BigInt(0);
+    }
+
+    const fees = samples.map((sample) => sample.prioritizationFee).sort((a, b) => a - b);
+    const index = Math.min(
+      fees.length - 1,
+      Math.floor((fees.length * BRIDGE_CONFIG.priorityFeePercentile) / 100)
+    );
+    return BigInt(fees[index]);
   }
 
   private createSaltBundle() {
@@ -97,13 +434,26 @@ export class RealBridgeImplementation {
     };
   }
 
-  private async buildSolBridgeTransaction({
+  private toMessageAccounts(
+    saltBuffer: Buffer,
+    outgoingMessage: PublicKey,
+    messageToRelay: PublicKey
+  ): BridgeMessageAccounts {
+    return {
+      salt: `0x${saltBuffer.toString('hex')}`,
+      outgoingMessage,
+      messageToRelay,
+    };
+  }
+
+  private async buildSolBridgeInstructions({
     walletAddress,
     amount,
     destinationAddress,
     asset,
     call,
-  }: CreateBridgeTransactionParams): Promise<Transaction> {
+    gasLimit = DEFAULT_GAS_LIMIT,
+  }: CreateBridgeTransactionParams): Promise<BridgeInstructionSet> {
     console.log(`Creating REAL bridge transaction: ${asset.symbol.toUpperCase()} → ${destinationAddress}`);
 
     try {
@@ -126,7 +476,7 @@ export class RealBridgeImplementation {
       console.info('[terminally-onchain] messageToRelayPDA:', messageToRelayPda.toBase58());
       console.info('[terminally-onchain] to:', destinationAddress.toLowerCase());
       console.info('[terminally-onchain] remoteToken:', asset.remoteAddress);
-      console.info('[terminally-onchain] gasLimit:', DEFAULT_GAS_LIMIT.toString());
+      console.info('[terminally-onchain] gasLimit:', gasLimit.toString());
 
       const bridgeAccountInfo = await this.connection.getAccountInfo(bridgeAddress);
       if (!bridgeAccountInfo) {
@@ -142,10 +492,7 @@ export class RealBridgeImplementation {
         this.baseRelayerProgramId
       );
 
-      const transaction = new Transaction();
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = walletAddress;
+      const instructions: TransactionInstruction[] = [];
 
       try {
         const cfgAccountInfo = await this.connection.getAccountInfo(cfgAddress);
@@ -162,7 +509,7 @@ export class RealBridgeImplementation {
           messageToRelaySalt: saltBuffer,
           systemProgram: SystemProgram.programId,
           outgoingMessage: outgoingMessagePda,
-          gasLimit: DEFAULT_GAS_LIMIT,
+          gasLimit,
         });
 
         const bridgeInstruction = this.createBridgeSolInstruction({
@@ -179,8 +526,7 @@ export class RealBridgeImplementation {
           call,
         });
 
-        transaction.add(relayInstruction);
-        transaction.add(bridgeInstruction);
+        instructions.push(relayInstruction, bridgeInstruction);
       } catch (error) {
         console.error('❌ Error with relay payment, falling back to bridge-only:', error);
 
@@ -198,24 +544,28 @@ export class RealBridgeImplementation {
           call,
         });
 
-        transaction.add(fallbackBridgeInstruction);
+        instructions.push(fallbackBridgeInstruction);
       }
 
-      return transaction;
+      return {
+        instructions,
+        message: this.toMessageAccounts(saltBuffer, outgoingMessagePda, messageToRelayPda),
+      };
     } catch (error) {
       console.error('Error creating bridge transaction:', error);
       throw error;
     }
   }
 
-  private async buildSplBridgeTransaction({
+  private async buildSplBridgeInstructions({
     walletAddress,
     destinationAddress,
     amount,
     asset,
     tokenAccount,
     call,
-  }: CreateBridgeTransactionParams): Promise<Transaction> {
+    gasLimit = DEFAULT_GAS_LIMIT,
+  }: CreateBridgeTransactionParams): Promise<BridgeInstructionSet> {
     if (!asset.mint) {
       throw new Error('SPL asset is missing a mint address.');
     }
@@ -232,11 +582,7 @@ export class RealBridgeImplementation {
         this.bridgeProgramId
       );
 
-      const remoteTokenBytes = this.addressToBytes20(asset.remoteAddress);
-      const [tokenVaultAddress] = PublicKey.findProgramAddressSync(
-        [Buffer.from('token_vault'), asset.mint.toBuffer(), remoteTokenBytes],
-        this.bridgeProgramId
-      );
+      const tokenVaultAddress = this.getTokenVaultAddress(asset.mint, asset.remoteAddress);
 
       const { saltBuffer, outgoingMessagePda, messageToRelayPda } = this.createSaltBundle();
 
@@ -249,6 +595,7 @@ export class RealBridgeImplementation {
       console.info('[terminally-onchain] messageToRelayPDA:', messageToRelayPda.toBase58());
       console.info('[terminally-onchain] to:', destinationAddress.toLowerCase());
       console.info('[terminally-onchain] remoteToken:', asset.remoteAddress);
+      console.info('[terminally-onchain] gasLimit:', gasLimit.toString());
 
       const bridgeAccountInfo = await this.connection.getAccountInfo(bridgeAddress);
       if (!bridgeAccountInfo) {
@@ -264,10 +611,7 @@ export class RealBridgeImplementation {
         this.baseRelayerProgramId
       );
 
-      const transaction = new Transaction();
-      const { blockhash } = await this.connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = walletAddress;
+      const instructions: TransactionInstruction[] = [];
 
       try {
         const cfgAccountInfo = await this.connection.getAccountInfo(cfgAddress);
@@ -284,7 +628,7 @@ export class RealBridgeImplementation {
           messageToRelaySalt: saltBuffer,
           systemProgram: SystemProgram.programId,
           outgoingMessage: outgoingMessagePda,
-          gasLimit: DEFAULT_GAS_LIMIT,
+          gasLimit,
         });
 
         const bridgeInstruction = this.createBridgeSplInstruction({
@@ -305,8 +649,7 @@ export class RealBridgeImplementation {
           call,
         });
 
-        transaction.add(relayInstruction);
-        transaction.add(bridgeInstruction);
+        instructions.push(relayInstruction, bridgeInstruction);
       } catch (error) {
         console.error('❌ Error with relay payment, falling back to bridge-only:', error);
 
@@ -328,16 +671,215 @@ export class RealBridgeImplementation {
           call,
         });
 
-        transaction.add(fallbackBridgeInstruction);
+        instructions.push(fallbackBridgeInstruction);
       }
 
-      return transaction;
+      return {
+        instructions,
+        message: this.toMessageAccounts(saltBuffer, outgoingMessagePda, messageToRelayPda),
+      };
     } catch (error) {
       console.error('Error creating bridge transaction:', error);
       throw error;
     }
   }
 
+  /**
+   * Create a bridge_call transaction that only carries a Base call (no asset transfer).
+   * The call is executed on Base by the sender's Twin contract.
+   */
+  async createBridgeCallTransaction({
+    walletAddress,
+    call,
+    gasLimit = DEFAULT_GAS_LIMIT,
+  }: CreateBridgeCallTransactionParams): Promise<PreparedBridgeTransaction> {
+    console.log(`Creating REAL bridge call transaction → ${call.target ?? call.type}`);
+
+    const [bridgeAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bridge')],
+      this.bridgeProgramId
+    );
+
+    const { saltBuffer, outgoingMessagePda, messageToRelayPda } = this.createSaltBundle();
+
+    console.info('[terminally-onchain] env:', this.solanaConfig.name);
+    console.info('[terminally-onchain] salt32:', `0x${saltBuffer.toString('hex')}`);
+    console.info('[terminally-onchain] outgoingMessagePDA:', outgoingMessagePda.toBase58());
+    console.info('[terminally-onchain] messageToRelayPDA:', messageToRelayPda.toBase58());
+
+    const bridgeAccountInfo = await this.connection.getAccountInfo(bridgeAddress);
+    if (!bridgeAccountInfo) {
+      throw new Error(
+        `Bridge account not found. The bridge may not be initialized on ${this.solanaConfig.name}.`
+      );
+    }
+
+    const gasFeeReceiver = this.solanaConfig.gasFeeReceiver;
+    const [cfgAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('config')],
+      this.baseRelayerProgramId
+    );
+
+    const cfgAccountInfo = await this.connection.getAccountInfo(cfgAddress);
+    if (!cfgAccountInfo) {
+      throw new Error('Base relayer config account not found. Bridge may not be fully initialized.');
+    }
+
+    const instructions = [
+      this.createPayForRelayInstruction({
+        payer: walletAddress,
+        cfg: cfgAddress,
+        gasFeeReceiver,
+        messageToRelay: messageToRelayPda,
+        messageToRelaySalt: saltBuffer,
+        systemProgram: SystemProgram.programId,
+        outgoingMessage: outgoingMessagePda,
+        gasLimit,
+      }),
+      this.createBridgeCallInstruction({
+        payer: walletAddress,
+        from: walletAddress,
+        gasFeeReceiver,
+        bridge: bridgeAddress,
+        outgoingMessage: outgoingMessagePda,
+        outgoingMessageSalt: saltBuffer,
+        systemProgram: SystemProgram.programId,
+        call,
+      }),
+    ];
+
+    return {
+      ...(await this.compileTransaction(walletAddress, instructions)),
+      message: this.toMessageAccounts(saltBuffer, outgoingMessagePda, messageToRelayPda),
+    };
+  }
+
+  /**
+   * Bridge-owned vault that holds locked SPL / Token-2022 tokens for a mint and its Base twin.
+   */
+  getTokenVaultAddress(mint: PublicKey, remoteAddress: string): PublicKey {
+    return deriveTokenVaultPda(mint, remoteAddress, this.bridgeProgramId);
+  }
+
+  /**
+   * Read gas pricing from the base relayer config PDA.
+   * Layout: discriminator(8) | guardian(32) | eip1559 { config(32), current_base_fee(8),
+   * window_gas_used(8), window_start(8) } | gas_config { scaler(8), scaler_dp(8), receiver(32), max_gas_limit(8) }
+   */
+  async getRelayerGasConfig(): Promise<RelayerGasConfig> {
+    const [cfgAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('config')],
+      this.baseRelayerProgramId
+    );
+
+    const accountInfo = await this.connection.getAccountInfo(cfgAddress);
+    if (!accountInfo || accountInfo.data.length < 152) {
+      throw new Error('Base relayer config account not found. Bridge may not be fully initialized.');
+    }
+
+    const data = accountInfo.data;
+    return {
+      currentBaseFee: data.readBigUInt64LE(72),
+      gasCostScaler: data.readBigUInt64LE(96),
+      gasCostScalerDp: data.readBigUInt64LE(104),
+      maxGasLimitPerMessage: data.readBigUInt64LE(144),
+    };
+  }
+
+  /**
+   * Account sizes created by a bridge, used for rent estimates.
+   * The outgoing message grows with the attached call payload.
+   */
+  getMessageAccountSizes(assetType: 'sol' | 'spl', callDataLength = 0) {
+    // discriminator + nonce + sender + message enum tag
+    const header = 8 + 8 + 32 + 1;
+    // to + local token + remote token + amount
+    const transfer = 20 + 32 + 20 + 8 + (assetType === 'spl' ? 32 : 0);
+    // Option tag + call type + target + value + payload length + payload
+    const call = 1 + (callDataLength > 0 ? 1 + 20 + 16 + 4 + callDataLength : 0);
+
+    return {
+      outgoingMessage: header + transfer + call,
+      // discriminator + outgoing message + gas limit
+      messageToRelay: 8 + 32 + 8,
+    };
+  }
+
+  /**
+   * Read the state of a Base → Solana message on the Solana bridge.
+   * The incoming message account only exists once the message has been proven.
+   */
+  async getIncomingMessageState(messageHash: string): Promise<IncomingMessageState> {
+    const address = deriveIncomingMessagePda(messageHash, this.bridgeProgramId);
+    const accountInfo = await this.connection.getAccountInfo(address);
+    if (!accountInfo) {
+      return { address, proven: false, executed: false };
+    }
+
+    // Layout: 8-byte discriminator followed by the `executed` flag
+    return {
+      address,
+      proven: true,
+      executed: accountInfo.data.length > 8 && accountInfo.data[8] === 1,
+    };
+  }
+
+  /**
+   * Create a relay_message transaction that executes a proven Base → Solana transfer.
+   */
+  async createRelayMessageTransaction({
+    walletAddress,
+    messageHash,
+    asset,
+    recipient,
+  }: CreateRelayMessageTransactionParams): Promise<CompiledBridgeTransaction> {
+    const [bridgeAddress] = PublicKey.findProgramAddressSync(
+      [Buffer.from('bridge')],
+      this.bridgeProgramId
+    );
+    const incomingMessage = deriveIncomingMessagePda(messageHash, this.bridgeProgramId);
+
+    return this.compileTransaction(walletAddress, [
+      this.createRelayMessageInstruction({
+        payer: walletAddress,
+        message: incomingMessage,
+        bridge: bridgeAddress,
+        remainingAccounts: this.getRelayTransferAccounts(asset, recipient),
+      }),
+    ]);
+  }
+
+  /**
+   * Accounts the relayed transfer touches, passed as remaining accounts to relay_message.
+   */
+  private getRelayTransferAccounts(asset: BridgeAssetDetails, recipient: PublicKey) {
+    if (asset.type === 'sol') {
+      const [solVaultAddress] = PublicKey.findProgramAddressSync(
+        [Buffer.from('sol_vault')],
+        this.bridgeProgramId
+      );
+
+      return [
+        { pubkey: solVaultAddress, isSigner: false, isWritable: true },
+        { pubkey: recipient, isSigner: false, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      ];
+    }
+
+    if (!asset.mint) {
+      throw new Error('SPL asset is missing a mint address.');
+    }
+
+    const tokenVaultAddress = this.getTokenVaultAddress(asset.mint, asset.remoteAddress);
+
+    return [
+      { pubkey: asset.mint, isSigner: false, isWritable: false },
+      { pubkey: tokenVaultAddress, isSigner: false, isWritable: true },
+      { pubkey: recipient, isSigner: false, isWritable: true },
+      { pubkey: asset.tokenProgram ?? TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ];
+  }
+
   /**
    * Create pay_for_relay instruction manually
    */
@@ -362,7 +904,7 @@ export class RealBridgeImplementation {
   }): TransactionInstruction {
 
     // pay_for_relay discriminator
-    const discriminator = Buffer.from([41, 191, 218, 201, 250, 164, 156, 55]);
+    const discriminator = RealBridgeImplementation.INSTRUCTION_DISCRIMINATORS.payForRelay;
 
     // Instruction data: discriminator + mtrSalt + outgoingMessage + gasLimit
     const data = Buffer.alloc(8 + 32 + 32 + 8);
@@ -436,7 +978,7 @@ export class RealBridgeImplementation {
     call?: BaseContractCall;
   }): TransactionInstruction {
 
-    const discriminator = Buffer.from([190, 190, 32, 158, 75, 153, 32, 86]);
+    const discriminator = RealBridgeImplementation.INSTRUCTION_DISCRIMINATORS.bridgeSol;
 
     const toBytes = this.addressToBytes20(to);
     const callBuffer = this.serializeOptionalCall(call);
@@ -510,7 +1052,7 @@ export class RealBridgeImplementation {
     call?: BaseContractCall;
   }): TransactionInstruction {
 
-    const discriminator = Buffer.from([87, 109, 172, 103, 8, 187, 223, 126]);
+    const discriminator = RealBridgeImplementation.INSTRUCTION_DISCRIMINATORS.bridgeSpl;
 
     const toBytes = this.addressToBytes20(to);
     const remoteTokenBytes = this.addressToBytes20(remoteToken);
@@ -557,6 +1099,84 @@ export class RealBridgeImplementation {
     });
   }
 
+  /**
+   * Create bridge_call instruction (message with a Base call and no asset transfer)
+   */
+  private createBridgeCallInstruction({
+    payer,
+    from,
+    gasFeeReceiver,
+    bridge,
+    outgoingMessage,
+    outgoingMessageSalt,
+    systemProgram,
+    call,
+  }: {
+    payer: PublicKey;
+    from: PublicKey;
+    gasFeeReceiver: PublicKey;
+    bridge: PublicKey;
+    outgoingMessage: PublicKey;
+    outgoingMessageSalt: Buffer;
+    systemProgram: PublicKey;
+    call: BaseContractCall;
+  }): TransactionInstruction {
+
+    const discriminator = RealBridgeImplementation.INSTRUCTION_DISCRIMINATORS.bridgeCall;
+
+    // bridge_call takes a required call, so drop the Option tag byte
+    const callBuffer = this.serializeOptionalCall(call).subarray(1);
+
+    // Instruction data: discriminator + salt + call
+    const data = Buffer.concat([discriminator, outgoingMessageSalt, callBuffer]);
+
+    const keys = [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: from, isSigner: true, isWritable: false },
+      { pubkey: gasFeeReceiver, isSigner: false, isWritable: true },
+      { pubkey: bridge, isSigner: false, isWritable: true },
+      { pubkey: outgoingMessage, isSigner: false, isWritable: true },
+      { pubkey: systemProgram, isSigner: false, isWritable: false },
+    ];
+
+    return new TransactionInstruction({
+      keys,
+      programId: this.bridgeProgramId,
+      data,
+    });
+  }
+
+  /**
+   * Create relay_message instruction for a proven incoming message
+   */
+  private createRelayMessageInstruction({
+    payer,
+    message,
+    bridge,
+    remainingAccounts,
+  }: {
+    payer: PublicKey;
+    message: PublicKey;
+    bridge: PublicKey;
+    remainingAccounts: { pubkey: PublicKey; isSigner: boolean; isWritable: boolean }[];
+  }): TransactionInstruction {
+
+    const discriminator = RealBridgeImplementation.INSTRUCTION_DISCRIMINATORS.relayMessage;
+
+    const keys = [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: message, isSigner: false, isWritable: true },
+      { pubkey: bridge, isSigner: false, isWritable: false },
+      ...remainingAccounts,
+    ];
+
+    return new TransactionInstruction({
+      keys,
+      programId: this.bridgeProgramId,
+      data: discriminator,
+    });
+  }
+
   /**
    * Convert Ethereum address to 20-byte buffer
    */
@@ -619,6 +1239,103 @@ export class RealBridgeImplementation {
     ]);
   }
 
+  /**
+   * Decode bridge / relayer instruction data built by this class back into its arguments.
+   * Returns null for instructions that are not bridge_sol, bridge_spl, bridge_call or pay_for_relay.
+   */
+  decodeBridgeInstruction(
+    programId: PublicKey,
+    data: Uint8Array,
+    accounts: PublicKey[] = []
+  ): DecodedBridgeInstruction | null {
+    const buffer = Buffer.from(data);
+    if (buffer.length < 8) {
+      return null;
+    }
+
+    const discriminator = buffer.subarray(0, 8);
+    const { payForRelay, bridgeSol, bridgeSpl, bridgeCall } =
+      RealBridgeImplementation.INSTRUCTION_DISCRIMINATORS;
+
+    try {
+      if (programId.equals(this.baseRelayerProgramId) && discriminator.equals(payForRelay)) {
+        return {
+          kind: 'pay_for_relay',
+          salt: `0x${buffer.subarray(8, 40).toString('hex')}`,
+          outgoingMessage: new PublicKey(buffer.subarray(40, 72)),
+          gasLimit: buffer.readBigUInt64LE(72),
+        };
+      }
+
+      if (!programId.equals(this.bridgeProgramId)) {
+        return null;
+      }
+
+      const salt = `0x${buffer.subarray(8, 40).toString('hex')}`;
+
+      if (discriminator.equals(bridgeSol)) {
+        return {
+          kind: 'bridge_sol',
+          salt,
+          to: `0x${buffer.subarray(40, 60).toString('hex')}`,
+          amount: buffer.readBigUInt64LE(60),
+          call: this.deserializeOptionalCall(buffer.subarray(68)),
+        };
+      }
+
+      if (discriminator.equals(bridgeSpl)) {
+        return {
+          kind: 'bridge_spl',
+          salt,
+          to: `0x${buffer.subarray(40, 60).toString('hex')}`,
+          remoteToken: `0x${buffer.subarray(60, 80).toString('hex')}`,
+          // bridge_spl account order: payer, from, gasFeeReceiver, mint, ...
+          mint: accounts[3],
+          amount: buffer.readBigUInt64LE(80),
+          call: this.deserializeOptionalCall(buffer.subarray(88)),
+        };
+      }
+
+      if (discriminator.equals(bridgeCall)) {
+        const call = this.deserializeOptionalCall(Buffer.concat([Buffer.from([1]), buffer.subarray(40)]));
+        return call ? { kind: 'bridge_call', salt, call } : null;
+      }
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to decode bridge instruction', error);
+    }
+
+    return null;
+  }
+
+  private deserializeOptionalCall(buffer: Buffer): BaseContractCall | undefined {
+    if (buffer.length === 0 || buffer[0] === 0) {
+      return undefined;
+    }
+
+    const callTypes = Object.keys(RealBridgeImplementation.CALL_TYPE_INDEX) as ContractCallType[];
+    const type = callTypes.find(
+      (key) => RealBridgeImplementation.CALL_TYPE_INDEX[key] === buffer[1]
+    );
+    if (!type) {
+      throw new Error(`Unknown call type index ${buffer[1]}.`);
+    }
+
+    const target = `0x${buffer.subarray(2, 22).toString('hex')}`;
+    let value = BigInt(0);
+    for (let i = 15; i >= 0; i -= 1) {
+      value = (value << BigInt(8)) | BigInt(buffer[22 + i]);
+    }
+    const payloadLength = buffer.readUInt32LE(38);
+    const payload = buffer.subarray(42, 42 + payloadLength);
+
+    return {
+      type,
+      target: type === 'create' || type === 'create2' ? undefined : target,
+      value: formatUnits(value, 18),
+      data: `0x${payload.toString('hex')}`,
+    };
+  }
+
   private parseCallValue(value?: string): bigint {
     if (!value || value.trim().length === 0) {
       return 0n;
@@ -670,53 +1387,134 @@ export class RealBridgeImplementation {
   }
 
   /**
-   * Submit bridge transaction
+   * Simulate an unsigned bridge transaction (signature verification disabled).
    */
-  async submitBridgeTransaction(
-    transaction: Transaction,
-    walletAddress: PublicKey,
-    signTransaction: (transaction: Transaction) => Promise<Transaction>
-  ): Promise<string> {
-    // Sign the transaction with the user's wallet
-    const signedTransaction = await signTransaction(transaction);
+  async simulateBridgeTransaction({
+    transaction,
+    size,
+    addressLookupTables,
+  }: CompiledBridgeTransaction): Promise<BridgeSimulationResult> {
+    const { value } = await this.connection.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
 
-    const serialized = signedTransaction.serialize();
+    return {
+      success: !value.err,
+      error: value.err ? JSON.stringify(value.err) : undefined,
+      unitsConsumed: value.unitsConsumed,
+      logs: value.logs ?? [],
+      size,
+      ...this.describeTransaction(transaction, addressLookupTables),
+    };
+  }
 
-    const primarySignature = signedTransaction.signatures[0]?.signature
-      ? bs58.encode(signedTransaction.signatures[0].signature as Buffer)
-      : undefined;
+  /**
+   * Resolve account flags and decode the bridge instructions of a v0 transaction.
+   */
+  describeTransaction(
+    transaction: VersionedTransaction,
+    addressLookupTables: AddressLookupTableAccount[] = []
+  ): BridgeTransactionSummary {
+    const { message } = transaction;
+    const staticCount = message.staticAccountKeys.length;
+    const accounts = message
+      .getAccountKeys({ addressLookupTableAccounts: addressLookupTables })
+      .keySegments()
+      .flat()
+      .map((pubkey, index) => ({
+        pubkey,
+        isSigner: message.isAccountSigner(index),
+        isWritable: message.isAccountWritable(index),
+        lookup: index >= staticCount,
+      }));
+    const { instructions } = TransactionMessage.decompile(message, {
+      addressLookupTableAccounts: addressLookupTables,
+    });
 
-    let signature: string | undefined;
+    return {
+      accounts,
+      instructions: instructions.map((instruction) => ({
+        programId: instruction.programId,
+        dataLength: instruction.data.length,
+        decoded: this.decodeBridgeInstruction(
+          instruction.programId,
+          instruction.data,
+          instruction.keys.map((key) => key.pubkey)
+        ),
+      })),
+    };
+  }
 
+  /**
+   * Broadcast a transaction signed elsewhere (cold wallet, multisig) and confirm it.
+   */
+  async submitSignedTransaction(serialized: Uint8Array): Promise<SubmittedSignedTransaction> {
+    let transaction: VersionedTransaction;
     try {
-      // Send the signed transaction
-      signature = await this.connection.sendRawTransaction(serialized, {
-        skipPreflight: false,
-      });
-    } catch (error) {
-      const message = error instanceof Error ? error.message : '';
-      const isAlreadyProcessed = message.includes('already been processed');
+      transaction = VersionedTransaction.deserialize(serialized);
+    } catch {
+      throw new Error('Unable to decode the signed transaction.');
+    }
 
-      if (isAlreadyProcessed && primarySignature) {
-        console.warn('⚠️ Transaction already processed, reusing existing signature');
-        signature = primarySignature;
-      } else {
-        throw error;
-      }
+    const { header } = transaction.message;
+    const signed = transaction.signatures
+      .slice(0, header.numRequiredSignatures)
+      .every((signature) => signature.some((byte) => byte !== 0));
+    if (!signed) {
+      throw new Error('Transaction is missing required signatures.');
     }
 
-    if (!signature) {
-      if (primarySignature) {
-        signature = primarySignature;
-      } else {
-        throw new Error('Unable to determine transaction signature');
-      }
+    const addressLookupTables = await this.fetchLookupTables(transaction.message.addressTableLookups);
+    const { instructions } = this.describeTransaction(transaction, addressLookupTables);
+    const bridgeInstruction = instructions.find(
+      ({ decoded }) => decoded && decoded.kind !== 'pay_for_relay'
+    )?.decoded;
+
+    // A still-valid blockhash expires within MAX_BLOCKHASH_AGE blocks from now
+    const blockHeight = await this.connection.getBlockHeight();
+    const signature = await transactionSender.sendAndConfirm(this.connection, transaction, {
+      lastValidBlockHeight: blockHeight + RealBridgeImplementation.MAX_BLOCKHASH_AGE,
+    });
+
+    if (!bridgeInstruction) {
+      return { signature, message: null };
     }
+    const saltBuffer = normalizeSalt(bridgeInstruction.salt);
+    return {
+      signature,
+      message: this.toMessageAccounts(
+        saltBuffer,
+        deriveOutgoingMessagePda(saltBuffer, this.bridgeProgramId),
+        deriveMessageToRelayPda(saltBuffer, this.baseRelayerProgramId)
+      ),
+    };
+  }
 
-    // Confirm transaction
-    await this.connection.confirmTransaction(signature, 'confirmed');
+  private async fetchLookupTables(
+    lookups: VersionedTransaction['message']['addressTableLookups']
+  ): Promise<AddressLookupTableAccount[]> {
+    const tables = await Promise.all(
+      lookups.map(({ accountKey }) => this.connection.getAddressLookupTable(accountKey))
+    );
+    return tables.map(({ value }, index) => {
+      if (!value) {
+        throw new Error(`Lookup table ${lookups[index].accountKey.toBase58()} not found.`);
+      }
+      return value;
+    });
+  }
 
-    return signature;
+  /**
+   * Sign and submit a compiled transaction, rebroadcasting until it lands or its blockhash expires.
+   * An expired transaction throws TransactionExpiredBlockheightExceededError; rebuild it to re-sign.
+   */
+  async submitBridgeTransaction(
+    { transaction, lastValidBlockHeight }: CompiledBridgeTransaction,
+    signTransaction: TransactionSigner
+  ): Promise<string> {
+    const signedTransaction = await signTransaction(transaction);
+    return transactionSender.sendAndConfirm(this.connection, signedTransaction, { lastValidBlockHeight });
   }
 
 }
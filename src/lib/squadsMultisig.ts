@@ -0,0 +1,120 @@
+import {
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  type AddressLookupTableAccount,
+} from '@solana/web3.js';
+import * as multisig from '@sqds/multisig';
+
+export interface SquadsVault {
+  multisig: PublicKey;
+  vault: PublicKey;
+  vaultIndex: number;
+  threshold: number;
+  members: number;
+  /** Index the next vault transaction / proposal will get */
+  transactionIndex: bigint;
+}
+
+export interface SquadsProposalOptions {
+  member: PublicKey;
+  instructions: TransactionInstruction[];
+  addressLookupTables?: AddressLookupTableAccount[];
+  memo?: string;
+}
+
+export interface SquadsProposal {
+  /** Vault state at build time; `transactionIndex` is the proposal's index */
+  vault: SquadsVault;
+  proposal: PublicKey;
+  /** The creating member also approves when it has vote permission */
+  approved: boolean;
+  instructions: TransactionInstruction[];
+}
+
+const { Permission, Permissions } = multisig.types;
+
+/**
+ * Wraps instructions into Squads v4 vault transactions + proposals.
+ * The connected wallet only creates (and approves) the proposal; the vault PDA executes
+ * the instructions once the multisig threshold is reached.
+ */
+export class SquadsMultisigService {
+  async getVault(connection: Connection, address: PublicKey, vaultIndex = 0): Promise<SquadsVault> {
+    return this.toVault(address, vaultIndex, await this.loadMultisig(connection, address));
+  }
+
+  /**
+   * vault_transaction_create + proposal_create, plus proposal_approve when the member can vote.
+   * Instructions must use the vault as payer / signer.
+   */
+  async createProposal(
+    connection: Connection,
+    address: PublicKey,
+    vaultIndex: number,
+    { member, instructions, addressLookupTables, memo }: SquadsProposalOptions
+  ): Promise<SquadsProposal> {
+    // Re-read right before building so a proposal created since staging does not collide
+    const account = await this.loadMultisig(connection, address);
+    const vault = this.toVault(address, vaultIndex, account);
+    const { transactionIndex } = vault;
+
+    const entry = account.members.find(({ key }) => key.equals(member));
+    if (!entry || !Permissions.has(entry.permissions, Permission.Initiate)) {
+      throw new Error(`${member.toBase58()} cannot create proposals on multisig ${address.toBase58()}.`);
+    }
+
+    const { blockhash } = await connection.getLatestBlockhash();
+    const proposalInstructions = [
+      multisig.instructions.vaultTransactionCreate({
+        multisigPda: address,
+        transactionIndex,
+        creator: member,
+        vaultIndex,
+        ephemeralSigners: 0,
+        // The program ignores the blockhash; the vault signs at execution time
+        transactionMessage: new TransactionMessage({
+          payerKey: vault.vault,
+          recentBlockhash: blockhash,
+          instructions,
+        }),
+        addressLookupTableAccounts: addressLookupTables,
+        memo,
+      }),
+      multisig.instructions.proposalCreate({ multisigPda: address, creator: member, transactionIndex }),
+    ];
+    const approved = Permissions.has(entry.permissions, Permission.Vote);
+    if (approved) {
+      proposalInstructions.push(
+        multisig.instructions.proposalApprove({ multisigPda: address, transactionIndex, member })
+      );
+    }
+
+    const [proposal] = multisig.getProposalPda({ multisigPda: address, transactionIndex });
+    return { vault, proposal, approved, instructions: proposalInstructions };
+  }
+
+  private async loadMultisig(connection: Connection, address: PublicKey): Promise<multisig.accounts.Multisig> {
+    try {
+      return await multisig.accounts.Multisig.fromAccountAddress(connection, address);
+    } catch (error) {
+      console.warn('[terminally-onchain] unable to load multisig', error);
+      throw new Error(`Squads multisig ${address.toBase58()} not found on this cluster.`);
+    }
+  }
+
+  private toVault(address: PublicKey, vaultIndex: number, account: multisig.accounts.Multisig): SquadsVault {
+    const [vault] = multisig.getVaultPda({ multisigPda: address, index: vaultIndex });
+    return {
+      multisig: address,
+      vault,
+      vaultIndex,
+      threshold: account.threshold,
+      members: account.members.length,
+      transactionIndex: BigInt(account.transactionIndex.toString()) + BigInt(1),
+    };
+  }
+}
+
+export const squadsMultisigService = new SquadsMultisigService();
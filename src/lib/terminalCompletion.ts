@@ -0,0 +1,132 @@
+import { COMMAND_SPECS, type CommandSpec } from './terminalParser';
+
+export interface CompletionSources {
+  /** Asset symbols of the active environment */
+  assets: string[];
+  /** Recently used Base destinations, most recent first */
+  destinations: string[];
+  /** `alias.function` names from the ABI registry */
+  abiFunctions: string[];
+  /** Variable names, without the `$` */
+  variables: string[];
+}
+
+export interface CompletionResult {
+  /** Input offsets of the token the candidates replace */
+  from: number;
+  to: number;
+  candidates: string[];
+  /** Usage line for the command under the cursor */
+  usage: string | null;
+}
+
+const AMOUNT_SHORTHANDS = ['max', 'all-but'];
+
+function findCommand(name: string): CommandSpec | undefined {
+  const normalized = name.toLowerCase();
+  return COMMAND_SPECS.find((spec) => spec.name.toLowerCase() === normalized);
+}
+
+function matching(candidates: string[], token: string): string[] {
+  const prefix = token.toLowerCase();
+  return Array.from(new Set(candidates)).filter(
+    (candidate) => candidate.toLowerCase().startsWith(prefix) && candidate !== token
+  );
+}
+
+/**
+ * Candidates and the usage line for the token under the cursor. Only the cursor's line is
+ * considered, so every line of a batch script completes on its own. Tokens are split on
+ * whitespace; quoted arguments are not special-cased.
+ */
+export function completeTerminalInput(
+  input: string,
+  cursor: number,
+  sources: CompletionSources
+): CompletionResult {
+  const lineStart = input.lastIndexOf('\n', cursor - 1) + 1;
+  const beforeCursor = input.slice(lineStart, cursor);
+  const from = lineStart + beforeCursor.search(/\S*$/);
+  const token = input.slice(from, cursor);
+  const previous = input.slice(lineStart, from).trim().split(/\s+/).filter(Boolean);
+  const result = (candidates: string[], usage: string | null): CompletionResult => ({
+    from,
+    to: cursor,
+    candidates: matching(candidates, token),
+    usage,
+  });
+
+  if (beforeCursor.trimStart().startsWith('#')) {
+    return result([], null);
+  }
+
+  if (previous.length === 0) {
+    if (!token) {
+      return result([], null);
+    }
+    const candidates = matching(
+      COMMAND_SPECS.map((spec) => spec.name),
+      token
+    );
+    const spec = findCommand(token) ?? (candidates.length === 1 ? findCommand(candidates[0]) : undefined);
+    return { from, to: cursor, candidates, usage: spec?.usage ?? null };
+  }
+
+  const spec = findCommand(previous[0]);
+  if (!spec) {
+    return result([], null);
+  }
+
+  if (token.startsWith('$')) {
+    return result(
+      sources.variables.map((name) => `$${name}`),
+      spec.usage
+    );
+  }
+
+  if (token.startsWith('--')) {
+    return result(
+      (spec.flags ?? []).map((flag) => `--${flag}`),
+      spec.usage
+    );
+  }
+
+  // Value of the flag just typed: offer its literal values (or ABI functions for --call)
+  const lastFlagIndex = previous.reduce((found, entry, index) => (entry.startsWith('--') ? index : found), -1);
+  if (lastFlagIndex >= 0) {
+    const flag = previous[lastFlagIndex].slice(2).toLowerCase();
+    const hint = spec.flagHints?.[flag];
+    const usage = `${spec.name} … --${flag}${hint ? ` ${hint}` : ''}`;
+    if (lastFlagIndex !== previous.length - 1) {
+      return result([], hint ? usage : spec.usage);
+    }
+    if (flag === 'call') {
+      return result(sources.abiFunctions, usage);
+    }
+    const literals = (hint ?? '').split('|').filter((part) => /^[a-z][a-z0-9-]*$/.test(part));
+    return result(literals, hint ? usage : spec.usage);
+  }
+
+  // `all-but <amount>` fills a single amount slot
+  const positionals = previous.slice(1);
+  const position =
+    positionals.length - (positionals[0]?.toLowerCase() === 'all-but' && positionals.length > 1 ? 1 : 0);
+  if (positionals.length === 1 && positionals[0].toLowerCase() === 'all-but') {
+    return result([], spec.usage);
+  }
+
+  const kind = spec.args?.[position];
+  if (kind === 'amount') {
+    return result(AMOUNT_SHORTHANDS, spec.usage);
+  }
+  if (kind === 'asset') {
+    return result(sources.assets, spec.usage);
+  }
+  if (kind === 'destination') {
+    return result(sources.destinations, spec.usage);
+  }
+  if (Array.isArray(kind)) {
+    return result(kind, spec.usage);
+  }
+  return result([], spec.usage);
+}
@@ -4,13 +4,20 @@ export interface LogEntry {
   id: string;
   variant: TerminalVariant;
   content: string;
+  /** Extra lines rendered under the entry, e.g. program logs for a failed transaction */
+  details?: string[];
   timestamp: string;
 }
 
-export const createLog = (variant: TerminalVariant, content: string): LogEntry => ({
+export const createLog = (
+  variant: TerminalVariant,
+  content: string,
+  details?: string[]
+): LogEntry => ({
   id: `${variant}-${Date.now()}-${Math.random()}`,
   variant,
   content,
+  details: details?.length ? details : undefined,
   timestamp: new Date().toLocaleTimeString(),
 });
 
@@ -1,15 +1,30 @@
+import { BRIDGE_CONFIG } from './constants';
+import { BUILTIN_VARIABLES } from './terminalVariables';
+import type { BridgeLifecycleStage } from './bridgeTracker';
+
 export type ParsedCommand =
   | { type: 'empty' }
   | { type: 'help' }
   | { type: 'clear' }
   | { type: 'assets' }
   | { type: 'balance' }
-  | { type: 'history' }
+  | { type: 'history'; kind: 'tx' | 'cmd'; options: HistoryCommandOptions }
+  | { type: 'rerun'; index?: number; suffix?: string }
   | { type: 'remoteToken'; mint: string }
+  | { type: 'status'; query: string }
+  | { type: 'submit'; transaction: string }
+  | { type: 'fee'; asset: string }
+  | { type: 'abi'; action: AbiCommandAction }
+  | { type: 'schedule'; action: ScheduleCommandAction }
+  | { type: 'set'; name?: string; value?: string }
+  | { type: 'batchOption'; stopOnError: boolean }
+  | { type: 'confirm'; message: string }
+  | { type: 'waitFor'; target?: string; stage?: WaitForStage }
   | { type: 'deploySpl'; payload: DeploySplPayload }
   | { type: 'error'; message: string }
   | { type: 'faucet'; asset: string }
-  | { type: 'bridge'; payload: BridgeCommandPayload };
+  | { type: 'bridge'; payload: BridgeCommandPayload }
+  | { type: 'withdraw'; payload: WithdrawCommandPayload };
 
 export interface BridgeCommandPayload {
   amount: string;
@@ -18,11 +33,57 @@ export interface BridgeCommandPayload {
   flags: BridgeCommandFlags;
 }
 
+/**
+ * One `--call` group: `<alias>.<fn> args..` or `<0x-contract> <fn(types)> args..`,
+ * optionally followed by `--value <eth>` (single call only) and `--allow-failure`.
+ */
+export interface BridgeCallSpec {
+  target: string;
+  selector?: string;
+  args: string[];
+  value?: string;
+  allowFailure?: boolean;
+}
+
+export interface WithdrawCommandPayload {
+  amount: string;
+  asset: string;
+  destination: string;
+  flags: WithdrawCommandFlags;
+}
+
+export interface WithdrawCommandFlags {
+  from?: 'twin' | 'evm';
+  mint?: string;
+  remote?: string;
+  decimals?: number;
+}
+
+export type AbiCommandAction =
+  | { kind: 'add'; alias: string; address: string; source: string }
+  | { kind: 'list' }
+  | { kind: 'show'; alias: string };
+
+export type WaitForStage = Exclude<BridgeLifecycleStage, 'failed'>;
+
+export const WAIT_FOR_STAGES: WaitForStage[] = ['submitted', 'relayed-paid', 'validated', 'executed'];
+
+export type ScheduleCommandAction =
+  | { kind: 'add'; command: string; intervalMs: number }
+  | { kind: 'list' }
+  | { kind: 'rm'; id: number };
+
+export interface HistoryCommandOptions {
+  limit?: number;
+  before?: string;
+}
+
 export interface DeploySplPayload {
   name: string;
   symbol: string;
   decimals: number;
   supply: string;
+  token2022?: boolean;
 }
 
 export interface BridgeCommandFlags {
@@ -33,28 +94,189 @@ export interface BridgeCommandFlags {
   callSelector?: string;
   callArgs?: string[];
   callValue?: string;
+  calls?: BridgeCallSpec[];
+  deploy?: string;
+  salt?: string;
+  ctorArgs?: string[];
   withBc?: string;
   bcFee?: number;
+  dryRun?: boolean;
+  exportTx?: boolean;
+  gasLimit?: string;
+  priorityFee?: string;
+  cuLimit?: number;
+  squads?: string;
+  vaultIndex?: number;
 }
 
-const FLAG_SPECS = {
-  mint: { type: 'string', key: 'mint' },
-  remote: { type: 'string', key: 'remote' },
-  decimals: { type: 'number', key: 'decimals' },
-  'call-contract': { type: 'string', key: 'callContract' },
-  'call-selector': { type: 'string', key: 'callSelector' },
-  'call-args': { type: 'args', key: 'callArgs' },
-  'call-value': { type: 'string', key: 'callValue' },
-  'with-bc': { type: 'string', key: 'withBc' },
-  'bc-fee': { type: 'number', key: 'bcFee' },
+/**
+ * `hint` is the value placeholder shown by tab completion; bare words in it (e.g. `auto`)
+ * are completed as literal values.
+ */
+export const FLAG_SPECS = {
+  mint: { type: 'string', key: 'mint', hint: '<mint>' },
+  remote: { type: 'string', key: 'remote', hint: '<0x..>' },
+  decimals: { type: 'number', key: 'decimals', hint: '<n>' },
+  'call-contract': { type: 'string', key: 'callContract', hint: '<0x-contract>' },
+  'call-selector': { type: 'string', key: 'callSelector', hint: '"fn(types)"' },
+  'call-args': { type: 'args', key: 'callArgs', hint: '<arg1> <arg2> ..' },
+  'call-value': { type: 'string', key: 'callValue', hint: '<eth>' },
+  call: { type: 'group', key: 'calls', hint: '<alias>.<fn> <args..>' },
+  value: { type: 'call-modifier', key: 'value', hint: '<eth>' },
+  'allow-failure': { type: 'call-modifier', key: 'allowFailure' },
+  deploy: { type: 'string', key: 'deploy', hint: '<0x-bytecode|artifact.json>' },
+  salt: { type: 'string', key: 'salt', hint: '<0x-hex>' },
+  'ctor-args': { type: 'args', key: 'ctorArgs', hint: '<args..>' },
+  'with-bc': { type: 'string', key: 'withBc', hint: '<payout-address>' },
+  'bc-fee': { type: 'number', key: 'bcFee', hint: '<0-255>' },
+  'dry-run': { type: 'boolean', key: 'dryRun' },
+  export: { type: 'boolean', key: 'exportTx' },
+  'gas-limit': { type: 'string', key: 'gasLimit', hint: '<n>|auto' },
+  'priority-fee': { type: 'string', key: 'priorityFee', hint: '<microlamports>|auto' },
+  'cu-limit': { type: 'number', key: 'cuLimit', hint: '<n>' },
+  squads: { type: 'string', key: 'squads', hint: '<multisig>' },
+  'vault-index': { type: 'number', key: 'vaultIndex', hint: '<0-255>' },
+} as const;
+
+export const WITHDRAW_FLAG_SPECS = {
+  from: { type: 'string', key: 'from', hint: 'twin|evm' },
+  mint: { type: 'string', key: 'mint', hint: '<mint>' },
+  remote: { type: 'string', key: 'remote', hint: '<0x..>' },
+  decimals: { type: 'number', key: 'decimals', hint: '<n>' },
 } as const;
 
+/** What a positional argument holds: a completion source, free text, or the literal values it accepts */
+export type CommandArgKind = 'amount' | 'asset' | 'destination' | 'text' | readonly string[];
+
+export interface CommandSpec {
+  name: string;
+  usage: string;
+  /** Builds the command from the tokens after its name */
+  parse: (args: string[], variables: Readonly<Record<string, string>>) => ParsedCommand;
+  args?: readonly CommandArgKind[];
+  /** Flags without the leading `--` */
+  flags?: readonly string[];
+  /** Value placeholders per flag */
+  flagHints?: Readonly<Record<string, string>>;
+}
+
+const flagHints = (specs: Record<string, { type: string; hint?: string }>) =>
+  Object.fromEntries(
+    Object.entries(specs).flatMap(([flag, spec]) => (spec.hint ? [[flag, spec.hint]] : []))
+  );
+
+/**
+ * Every terminal command with its usage line and parser, in the order completion offers them.
+ * Names match case-insensitively.
+ */
+export const COMMAND_SPECS: readonly CommandSpec[] = [
+  {
+    name: 'bridge',
+    usage: 'bridge <amount> <asset> <destination> [--mint .. --remote .. --decimals .. --call .. --squads .. --dry-run --export]',
+    parse: parseBridge,
+    args: ['amount', 'asset', 'destination'],
+    flags: Object.keys(FLAG_SPECS),
+    flagHints: flagHints(FLAG_SPECS),
+  },
+  {
+    name: 'simulate',
+    usage: 'simulate <amount> <asset> <destination> [bridge flags]',
+    parse: parseSimulate,
+    args: ['amount', 'asset', 'destination'],
+    flags: Object.keys(FLAG_SPECS),
+    flagHints: flagHints(FLAG_SPECS),
+  },
+  {
+    name: 'withdraw',
+    usage: 'withdraw <amount> <asset> <solana-destination> [--from twin|evm --mint <mint> --remote <0x..> --decimals <n>]',
+    parse: parseWithdraw,
+    args: ['text', 'asset'],
+    flags: Object.keys(WITHDRAW_FLAG_SPECS),
+    flagHints: flagHints(WITHDRAW_FLAG_SPECS),
+  },
+  {
+    name: 'deploySpl',
+    usage: 'deploySpl <name> <symbol> <decimals> <supply> [--token-2022]',
+    parse: parseDeploySpl,
+    flags: ['token-2022'],
+  },
+  { name: 'remoteToken', usage: 'remoteToken <spl-mint>', parse: parseRemoteToken },
+  { name: 'balance', usage: 'balance', parse: () => ({ type: 'balance' }) },
+  { name: 'assets', usage: 'assets', parse: () => ({ type: 'assets' }) },
+  {
+    name: 'fee',
+    usage: 'fee [asset]',
+    parse: (args) => ({ type: 'fee', asset: args[0]?.toLowerCase() ?? 'sol' }),
+    args: ['asset'],
+  },
+  { name: 'faucet', usage: 'faucet <asset>', parse: parseFaucet, args: ['asset'] },
+  {
+    name: 'history',
+    usage: 'history [tx|cmd] [--limit <n>] [--before <signature>]   (!! or !n re-runs a command)',
+    parse: parseHistory,
+    args: [['tx', 'cmd']],
+    flags: ['limit', 'before'],
+    flagHints: { limit: '<n>', before: '<signature>' },
+  },
+  { name: 'status', usage: 'status <signature|salt>', parse: parseStatus },
+  {
+    name: 'wait-for',
+    usage: `wait-for [<signature|salt>] [${WAIT_FOR_STAGES.join('|')}]`,
+    parse: parseWaitFor,
+    args: [WAIT_FOR_STAGES],
+  },
+  { name: 'submit', usage: 'submit <base64-signed-transaction>', parse: parseSubmit },
+  {
+    name: 'abi',
+    usage: 'abi add <alias> <0x-address> <abi-json|url|name> | abi list | abi show <alias>',
+    parse: parseAbi,
+    args: [['add', 'list', 'show']],
+  },
+  {
+    name: 'schedule',
+    usage: 'schedule add "<bridge command>" --every <interval> | schedule list | schedule rm <id>',
+    parse: parseSchedule,
+    args: [['add', 'list', 'rm']],
+    flags: ['every'],
+    flagHints: { every: '<30m|24h|1d>' },
+  },
+  { name: 'set', usage: 'set <NAME> <value> | set -e | set +e', parse: parseSet, args: [['-e', '+e']] },
+  {
+    name: 'confirm',
+    usage: 'confirm "<message>"',
+    parse: (args) => ({ type: 'confirm', message: args.join(' ') || 'Continue?' }),
+  },
+  { name: 'help', usage: 'help', parse: () => ({ type: 'help' }) },
+  { name: 'clear', usage: 'clear', parse: () => ({ type: 'clear' }) },
+];
+
 const BASE58_MINT_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const EVM_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Parse one terminal line. `$NAME` / `${NAME}` expand from `variables` outside single quotes.
+ */
+export function parseTerminalCommand(
+  input: string,
+  variables: Readonly<Record<string, string>> = {}
+): ParsedCommand {
+  if (input.trim().startsWith('#')) {
+    return { type: 'empty' };
+  }
+
+  // Shell-style history references; anything after them is appended to the recalled command
+  const rerun = /^!(!|\d+)(?:\s+(.+))?$/.exec(input.trim());
+  if (rerun) {
+    const [, reference, suffix] = rerun;
+    if (reference === '0') {
+      return { type: 'error', message: "History numbers start at 1. Run 'history cmd' to see them." };
+    }
+    return { type: 'rerun', index: reference === '!' ? undefined : Number(reference), suffix };
+  }
 
-export function parseTerminalCommand(input: string): ParsedCommand {
   let tokens: string[];
   try {
-    tokens = tokenize(input);
+    tokens = tokenize(input, variables);
   } catch (error) {
     return {
       type: 'error',
@@ -67,31 +289,15 @@ export function parseTerminalCommand(input: string): ParsedCommand {
   }
 
   const [command, ...rest] = tokens;
-  switch (command.toLowerCase()) {
-    case 'help':
-      return { type: 'help' };
-    case 'clear':
-      return { type: 'clear' };
-    case 'assets':
-      return { type: 'assets' };
-    case 'balance':
-      return { type: 'balance' };
-    case 'history':
-      return { type: 'history' };
-    case 'remotetoken':
-      return parseRemoteToken(rest);
-    case 'faucet':
-      return parseFaucet(rest);
-    case 'deployspl':
-      return parseDeploySpl(rest);
-    case 'bridge':
-      return parseBridge(rest);
-    default:
-      return {
-        type: 'error',
-        message: `Unknown command "${command}". Type 'help' to see available commands.`,
-      };
+  const name = command.toLowerCase();
+  const spec = COMMAND_SPECS.find((entry) => entry.name.toLowerCase() === name);
+  if (!spec) {
+    return {
+      type: 'error',
+      message: `Unknown command "${command}". Type 'help' to see available commands.`,
+    };
   }
+  return spec.parse(rest, variables);
 }
 
 function parseRemoteToken(args: string[]): ParsedCommand {
@@ -108,6 +314,189 @@ function parseRemoteToken(args: string[]): ParsedCommand {
   };
 }
 
+function parseHistory(args: string[]): ParsedCommand {
+  const options: HistoryCommandOptions = {};
+  const usage = 'Usage: history [tx] [--limit <n>] [--before <signature>] | history cmd [--limit <n>]';
+
+  // Bare `history` keeps meaning bridge transactions
+  const first = args[0]?.toLowerCase();
+  const kind = first === 'cmd' ? 'cmd' : 'tx';
+  const flags = first === 'tx' || first === 'cmd' ? args.slice(1) : args;
+
+  for (let i = 0; i < flags.length; i += 2) {
+    const flag = flags[i].toLowerCase();
+    const value = flags[i + 1];
+    if (flag !== '--limit' && (flag !== '--before' || kind === 'cmd')) {
+      return { type: 'error', message: usage };
+    }
+    if (!value) {
+      return { type: 'error', message: `Flag "${flag}" requires a value.` };
+    }
+
+    if (flag === '--limit') {
+      const limit = Number(value);
+      if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+        return { type: 'error', message: 'Flag "--limit" must be an integer between 1 and 1000.' };
+      }
+      options.limit = limit;
+    } else {
+      options.before = value;
+    }
+  }
+
+  return { type: 'history', kind, options };
+}
+
+function parseStatus(args: string[]): ParsedCommand {
+  if (args.length === 0) {
+    return {
+      type: 'error',
+      message: "Usage: status <signature|salt>. Example: status 0x<32-byte salt>",
+    };
+  }
+
+  return {
+    type: 'status',
+    query: args[0].trim(),
+  };
+}
+
+function parseSubmit(args: string[]): ParsedCommand {
+  if (args.length !== 1) {
+    return {
+      type: 'error',
+      message: "Usage: submit <base64-signed-transaction>. Sign the output of 'bridge ... --export' first.",
+    };
+  }
+
+  return {
+    type: 'submit',
+    transaction: args[0].trim(),
+  };
+}
+
+function parseAbi(args: string[]): ParsedCommand {
+  const usage = "Usage: abi add <alias> <0x-address> <abi-json|url|name> | abi list | abi show <alias>";
+  const [actionRaw, ...rest] = args;
+
+  switch (actionRaw?.toLowerCase()) {
+    case 'add': {
+      const [alias, address, ...sourceParts] = rest;
+      if (!alias || !address || sourceParts.length === 0) {
+        return { type: 'error', message: "Usage: abi add <alias> <0x-address> <abi-json|url|name>. Example: abi add wsol 0x... erc20" };
+      }
+      return {
+        type: 'abi',
+        action: { kind: 'add', alias, address, source: sourceParts.join(' ') },
+      };
+    }
+    case 'list':
+      return { type: 'abi', action: { kind: 'list' } };
+    case 'show':
+      if (!rest[0]) {
+        return { type: 'error', message: "Usage: abi show <alias>" };
+      }
+      return { type: 'abi', action: { kind: 'show', alias: rest[0] } };
+    default:
+      return { type: 'error', message: usage };
+  }
+}
+
+function parseSet(args: string[]): ParsedCommand {
+  if (args.length === 0) {
+    return { type: 'set' };
+  }
+  // Shell-style batch option: `set -e` stops the batch at the first failing command, `set +e` resumes
+  if (args.length === 1 && /^[-+]e$/.test(args[0])) {
+    return { type: 'batchOption', stopOnError: args[0] === '-e' };
+  }
+  const [name, ...valueParts] = args;
+  if (valueParts.length === 0) {
+    return { type: 'error', message: 'Usage: set <NAME> <value>. Example: set DEST 0xabc..., then use $DEST' };
+  }
+  return { type: 'set', name, value: valueParts.join(' ') };
+}
+
+function parseWaitFor(args: string[]): ParsedCommand {
+  const usage = `Usage: wait-for [<signature|salt>] [${WAIT_FOR_STAGES.join('|')}]. Defaults to $LAST_SIG and executed.`;
+  if (args.length > 2) {
+    return { type: 'error', message: usage };
+  }
+
+  const isStage = (value?: string): value is WaitForStage =>
+    value !== undefined && (WAIT_FOR_STAGES as string[]).includes(value.toLowerCase());
+  const [first, second] = args;
+  if (args.length === 1 && isStage(first)) {
+    return { type: 'waitFor', stage: first.toLowerCase() as WaitForStage };
+  }
+  if (second !== undefined && !isStage(second)) {
+    return { type: 'error', message: usage };
+  }
+  return {
+    type: 'waitFor',
+    target: first,
+    stage: second ? (second.toLowerCase() as WaitForStage) : undefined,
+  };
+}
+
+function parseSchedule(args: string[], variables: Readonly<Record<string, string>>): ParsedCommand {
+  const usage = 'Usage: schedule add "<bridge command>" --every <interval> | schedule list | schedule rm <id>';
+  const [actionRaw, ...rest] = args;
+
+  switch (actionRaw?.toLowerCase()) {
+    case 'add': {
+      const [command, flag, interval, ...extra] = rest;
+      if (!command || flag?.toLowerCase() !== '--every' || !interval || extra.length > 0) {
+        return {
+          type: 'error',
+          message: 'Usage: schedule add "<bridge command>" --every <interval>. Example: schedule add "bridge 0.5 sol 0x..." --every 24h',
+        };
+      }
+
+      const intervalMs = parseInterval(interval);
+      if (intervalMs === null) {
+        return { type: 'error', message: 'Flag "--every" must be a duration like 30m, 12h or 1d.' };
+      }
+      if (intervalMs < BRIDGE_CONFIG.minScheduleInterval) {
+        return { type: 'error', message: 'Scheduled bridges must run at most once a minute.' };
+      }
+
+      // Validate now exactly like a typed command; the job is parsed again on every run
+      const parsed = parseTerminalCommand(command, variables);
+      if (parsed.type === 'error') {
+        return { type: 'error', message: `Scheduled command is invalid: ${parsed.message}` };
+      }
+      if (parsed.type !== 'bridge') {
+        return { type: 'error', message: 'Only bridge commands can be scheduled.' };
+      }
+      if (parsed.payload.flags.exportTx) {
+        return { type: 'error', message: '--export cannot be scheduled; scheduled bridges are signed in the app.' };
+      }
+      return { type: 'schedule', action: { kind: 'add', command: command.trim(), intervalMs } };
+    }
+    case 'list':
+      return { type: 'schedule', action: { kind: 'list' } };
+    case 'rm': {
+      const id = Number(rest[0]);
+      if (!Number.isInteger(id) || id < 1) {
+        return { type: 'error', message: 'Usage: schedule rm <id>. Run schedule list to see job ids.' };
+      }
+      return { type: 'schedule', action: { kind: 'rm', id } };
+    }
+    default:
+      return { type: 'error', message: usage };
+  }
+}
+
+function parseInterval(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+)(s|m|h|d)$/);
+  if (!match) {
+    return null;
+  }
+  const unit = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[match[2] as 's' | 'm' | 'h' | 'd'];
+  return Number(match[1]) * unit;
+}
+
 function parseFaucet(args: string[]): ParsedCommand {
   if (args.length === 0) {
     return {
@@ -126,11 +515,18 @@ function parseDeploySpl(args: string[]): ParsedCommand {
   if (args.length < 4) {
     return {
       type: 'error',
-      message: "Usage: deploySpl <name> <symbol> <decimals> <supply>",
+      message: "Usage: deploySpl <name> <symbol> <decimals> <supply> [--token-2022]",
     };
   }
 
-  const [name, symbol, decimalsRaw, supply] = args;
+  const [name, symbol, decimalsRaw, supply, ...flagTokens] = args;
+  const unknownFlag = flagTokens.find((token) => token.toLowerCase() !== '--token-2022');
+  if (unknownFlag) {
+    return {
+      type: 'error',
+      message: `Unknown deploySpl option "${unknownFlag}". Only --token-2022 is supported.`,
+    };
+  }
   const decimals = Number(decimalsRaw);
 
   if (!Number.isInteger(decimals) || decimals < 0 || decimals > 18) {
@@ -147,6 +543,7 @@ function parseDeploySpl(args: string[]): ParsedCommand {
       symbol: symbol.trim(),
       decimals,
       supply: supply.trim(),
+      token2022: flagTokens.length > 0,
     },
   };
 }
@@ -159,7 +556,14 @@ function parseBridge(args: string[]): ParsedCommand {
     };
   }
 
-  const [amountRaw, assetRaw, destination, ...flagTokens] = args;
+  // `all-but <amount>` spans two tokens
+  const allBut = args[0].trim().toLowerCase() === 'all-but';
+  if (allBut && args.length < 4) {
+    return { type: 'error', message: 'Usage: bridge all-but <amount> <asset> <destination> [flags]' };
+  }
+  const [amountRaw, assetRaw, destination, ...flagTokens] = allBut
+    ? [`all-but ${args[1]}`, ...args.slice(2)]
+    : args;
   const amount = amountRaw.trim();
   const assetInput = assetRaw.trim();
   const asset = BASE58_MINT_REGEX.test(assetInput) ? assetInput : assetInput.toLowerCase();
@@ -171,6 +575,11 @@ function parseBridge(args: string[]): ParsedCommand {
     };
   }
 
+  const amountError = validateAmountShorthand(amount);
+  if (amountError) {
+    return { type: 'error', message: amountError };
+  }
+
   try {
     const flags = parseFlags(flagTokens);
     return {
@@ -193,6 +602,132 @@ function parseBridge(args: string[]): ParsedCommand {
   }
 }
 
+function parseWithdraw(args: string[]): ParsedCommand {
+  const usage = "Usage: withdraw <amount> <asset> <solana-destination> [--from twin|evm --mint <mint> --remote <0x..> --decimals <n>]";
+  if (args.length < 3) {
+    return { type: 'error', message: usage };
+  }
+
+  const [amountRaw, assetRaw, destinationRaw, ...flagTokens] = args;
+  const amount = amountRaw.trim();
+  const assetInput = assetRaw.trim();
+  const asset = BASE58_MINT_REGEX.test(assetInput) ? assetInput : assetInput.toLowerCase();
+  const destination = destinationRaw.trim();
+
+  if (!amount || !asset || !destination) {
+    return { type: 'error', message: usage };
+  }
+
+  if (!BASE58_MINT_REGEX.test(destination)) {
+    return {
+      type: 'error',
+      message: `Invalid Solana destination "${destination}". Expected a base58 address.`,
+    };
+  }
+
+  try {
+    const flags = parseWithdrawFlags(flagTokens);
+    return {
+      type: 'withdraw',
+      payload: {
+        amount,
+        asset,
+        destination,
+        flags,
+      },
+    };
+  } catch (error) {
+    return {
+      type: 'error',
+      message:
+        error instanceof Error
+          ? error.message
+          : 'Failed to parse withdraw flags.',
+    };
+  }
+}
+
+function parseWithdrawFlags(tokens: string[]): WithdrawCommandFlags {
+  const flags: WithdrawCommandFlags = {};
+
+  for (let i = 0; i < tokens.length; i += 2) {
+    const token = tokens[i];
+    if (!token.startsWith('--')) {
+      throw new Error(`Unexpected token "${token}". Flags must start with "--".`);
+    }
+
+    const key = token.slice(2).toLowerCase() as keyof typeof WITHDRAW_FLAG_SPECS;
+    const spec = WITHDRAW_FLAG_SPECS[key];
+    if (!spec) {
+      throw new Error(`Unknown flag "--${key}".`);
+    }
+
+    const value = tokens[i + 1];
+    if (!value) {
+      throw new Error(`Flag "--${key}" requires a value.`);
+    }
+
+    if (spec.key === 'from') {
+      const source = value.toLowerCase();
+      if (source !== 'twin' && source !== 'evm') {
+        throw new Error('Flag "--from" must be either "twin" or "evm".');
+      }
+      flags.from = source;
+    } else if (spec.type === 'number') {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`Flag "--${key}" must be a positive number.`);
+      }
+      flags[spec.key] = parsed;
+    } else {
+      flags[spec.key] = value;
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * `max`, `<n>%` and `all-but <amount>` are resolved against the live balance when the bridge is staged.
+ */
+export function isAmountShorthand(amount: string): boolean {
+  return /^(max|all-but\s.+|[\d.]+%)$/i.test(amount.trim());
+}
+
+function validateAmountShorthand(amount: string): string | null {
+  if (!isAmountShorthand(amount)) {
+    return null;
+  }
+  const value = amount.trim().toLowerCase();
+  if (value.endsWith('%')) {
+    const percent = Number(value.slice(0, -1));
+    if (!/^\d+(\.\d{1,2})?%$/.test(value) || percent <= 0 || percent > 100) {
+      return 'Percentage amounts must be between 0 and 100% with at most two decimals, e.g. 50% or 12.5%.';
+    }
+  }
+  if (value.startsWith('all-but') && !/^all-but\s+\d*\.?\d+$/.test(value)) {
+    return 'Usage: all-but <amount>, e.g. bridge all-but 0.01 sol 0x...';
+  }
+  return null;
+}
+
+function parseSimulate(args: string[]): ParsedCommand {
+  const parsed = parseBridge(args);
+  if (parsed.type !== 'bridge') {
+    return parsed.type === 'error'
+      ? { type: 'error', message: parsed.message.replace(/^Usage: bridge/, 'Usage: simulate') }
+      : parsed;
+  }
+
+  return {
+    type: 'bridge',
+    payload: {
+      ...parsed.payload,
+      flags: { ...parsed.payload.flags, dryRun: true },
+    },
+  };
+}
+
 function parseFlags(tokens: string[]): BridgeCommandFlags {
   const flags: BridgeCommandFlags = {};
 
@@ -210,6 +745,52 @@ function parseFlags(tokens: string[]): BridgeCommandFlags {
       throw new Error(`Unknown flag "--${key}".`);
     }
 
+    if (spec.type === 'boolean') {
+      flags[spec.key] = true;
+      i += 1;
+      continue;
+    }
+
+    if (spec.type === 'group') {
+      i += 1;
+      const values: string[] = [];
+      while (i < tokens.length && !tokens[i].startsWith('--')) {
+        values.push(tokens[i]);
+        i += 1;
+      }
+      if (values.length === 0) {
+        throw new Error('Flag "--call" requires <alias>.<function> or <0x-contract> <fn(types)> followed by its args.');
+      }
+      const [target, ...rest] = values;
+      const group: BridgeCallSpec = EVM_ADDRESS_REGEX.test(target)
+        ? { target, selector: rest[0], args: rest.slice(1) }
+        : { target, args: rest };
+      if (EVM_ADDRESS_REGEX.test(target) && !group.selector) {
+        throw new Error(`Call to ${target} needs a function selector, e.g. "transfer(address,uint256)".`);
+      }
+      flags.calls = [...(flags.calls ?? []), group];
+      continue;
+    }
+
+    if (spec.type === 'call-modifier') {
+      const current = flags.calls?.[flags.calls.length - 1];
+      if (!current) {
+        throw new Error(`Flag "--${key}" must follow a --call group.`);
+      }
+      if (spec.key === 'allowFailure') {
+        current.allowFailure = true;
+        i += 1;
+        continue;
+      }
+      const value = tokens[i + 1];
+      if (!value || !/^\d*\.?\d+$/.test(value)) {
+        throw new Error('Flag "--value" requires an ETH amount, e.g. --value 0.01.');
+      }
+      current.value = value;
+      i += 2;
+      continue;
+    }
+
     if (spec.type === 'args') {
       i += 1;
       const values: string[] = [];
@@ -238,6 +819,74 @@ function parseFlags(tokens: string[]): BridgeCommandFlags {
     }
   }
 
+  if (flags.gasLimit && flags.gasLimit !== 'auto' && !/^[1-9]\d*$/.test(flags.gasLimit)) {
+    throw new Error('Flag "--gas-limit" must be a positive integer or "auto".');
+  }
+
+  if (flags.priorityFee && flags.priorityFee !== 'auto' && !/^\d+$/.test(flags.priorityFee)) {
+    throw new Error('Flag "--priority-fee" must be micro-lamports per compute unit or "auto".');
+  }
+
+  if (
+    flags.cuLimit !== undefined &&
+    (!Number.isInteger(flags.cuLimit) || flags.cuLimit < 1 || flags.cuLimit > 1400000)
+  ) {
+    throw new Error('Flag "--cu-limit" must be an integer between 1 and 1400000.');
+  }
+
+  if (flags.exportTx && flags.dryRun) {
+    throw new Error('--export and --dry-run cannot be combined.');
+  }
+
+  if (flags.squads && !BASE58_MINT_REGEX.test(flags.squads)) {
+    throw new Error('Flag "--squads" must be a base58 multisig address.');
+  }
+
+  if (flags.vaultIndex !== undefined) {
+    if (!flags.squads) {
+      throw new Error('--vault-index only applies to --squads.');
+    }
+    if (!Number.isInteger(flags.vaultIndex) || flags.vaultIndex > 255) {
+      throw new Error('Flag "--vault-index" must be an integer between 0 and 255.');
+    }
+  }
+
+  if (flags.gasLimit === 'auto' && !flags.callContract && !flags.calls) {
+    throw new Error('--gas-limit auto needs an attached call to estimate.');
+  }
+
+  if ((flags.salt || flags.ctorArgs) && !flags.deploy) {
+    throw new Error('--salt and --ctor-args only apply to --deploy.');
+  }
+
+  if (flags.deploy) {
+    if (flags.calls || flags.callContract || flags.callSelector || flags.callArgs) {
+      throw new Error('--deploy cannot be combined with --call or --call-* flags.');
+    }
+    return flags;
+  }
+
+  if (flags.calls) {
+    if (flags.callContract || flags.callSelector || flags.callArgs) {
+      throw new Error('Use either --call or --call-contract/--call-selector/--call-args, not both.');
+    }
+    if (flags.callValue) {
+      throw new Error('Use --value after the --call group instead of --call-value.');
+    }
+    // Several calls (or one with --allow-failure) run through a Multicall3 delegatecall, which cannot carry ETH
+    const batched = flags.calls.length > 1 || flags.calls.some((call) => call.allowFailure);
+    if (batched && flags.calls.some((call) => call.value !== undefined)) {
+      throw new Error(
+        '--value only works on a single --call without --allow-failure; batched calls are sent through a Multicall3 delegatecall, which cannot send ETH.'
+      );
+    }
+    // The Twin cannot estimate its own delegatecall, so a batch would always fall back to the default limit
+    if (batched && flags.gasLimit === 'auto') {
+      throw new Error('--gas-limit auto only works on a single --call without --allow-failure; pass an explicit --gas-limit <n> for batched calls.');
+    }
+    return flags;
+  }
+
   if ((flags.callSelector || flags.callArgs?.length || flags.callValue) && !flags.callContract) {
     throw new Error('Specify --call-contract when adding call details.');
   }
@@ -249,13 +898,70 @@ function parseFlags(tokens: string[]): BridgeCommandFlags {
   return flags;
 }
 
-function tokenize(input: string): string[] {
+/**
+ * Fold `calls` … `end` blocks in a batch script into `--call` groups on the bridge line above them.
+ * Each line inside the block is one call: `<alias>.<fn> args.. [--allow-failure]`. `--value <eth>` only
+ * works when the block holds a single call.
+ */
+export function expandCallBlocks(lines: string[]): string[] {
+  const result: string[] = [];
+  let blockTarget: number | null = null;
+
+  lines.forEach((line) => {
+    const keyword = line.trim().toLowerCase();
+    if (blockTarget === null) {
+      if (keyword !== 'calls') {
+        result.push(line);
+        return;
+      }
+      const previous = result.length - 1;
+      if (previous < 0 || !/^(bridge|simulate)\s/i.test(result[previous].trim())) {
+        throw new Error('A "calls" block must directly follow a bridge or simulate command.');
+      }
+      blockTarget = previous;
+      return;
+    }
+
+    if (keyword === 'end') {
+      blockTarget = null;
+      return;
+    }
+    result[blockTarget] = `${result[blockTarget]} --call ${line.trim()}`;
+  });
+
+  if (blockTarget !== null) {
+    throw new Error('Unterminated "calls" block: add "end" after the last call.');
+  }
+
+  return result;
+}
+
+function tokenize(input: string, variables: Readonly<Record<string, string>>): string[] {
   const tokens: string[] = [];
   let current = '';
   let quote: '"' | "'" | null = null;
 
   for (let i = 0; i < input.length; i += 1) {
     const char = input[i];
+    // Like a shell: single quotes keep `$NAME` literal; values are never split into extra tokens
+    if (char === '$' && quote !== "'") {
+      const match = input.slice(i + 1).match(/^(?:\{([A-Za-z_]\w*)\}|([A-Za-z_]\w*))/);
+      if (match) {
+        const name = match[1] ?? match[2];
+        const value = Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : undefined;
+        if (value === undefined) {
+          throw new Error(
+            (BUILTIN_VARIABLES as readonly string[]).includes(name)
+              ? `$${name} is not available yet; it is filled in once a command produces it.`
+              : `$${name} is not set. Define it with: set ${name} <value>`
+          );
+        }
+        current += value;
+        i += match[0].length;
+        continue;
+      }
+    }
+
     if (quote) {
       if (char === quote) {
         tokens.push(current);
@@ -0,0 +1,55 @@
+export const BUILTIN_VARIABLES = ['TWIN', 'WALLET', 'LAST_MINT', 'LAST_SIG'] as const;
+
+export type BuiltinVariable = (typeof BUILTIN_VARIABLES)[number];
+
+const VARIABLE_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * `$NAME` values for the terminal session: user variables from `set NAME value` plus
+ * built-ins the command handlers keep current. Kept outside React state so later lines
+ * of the same batch see values produced by earlier ones.
+ */
+export class TerminalVariables {
+  private values = new Map<string, string>();
+
+  set(name: string, value: string) {
+    if (!VARIABLE_NAME_REGEX.test(name)) {
+      throw new Error(`Invalid variable name "${name}". Use letters, digits and underscores.`);
+    }
+    if ((BUILTIN_VARIABLES as readonly string[]).includes(name)) {
+      throw new Error(`$${name} is set automatically and cannot be overridden.`);
+    }
+    this.values.set(name, value);
+  }
+
+  setBuiltin(name: BuiltinVariable, value: string | null) {
+    if (value === null) {
+      this.values.delete(name);
+    } else {
+      this.values.set(name, value);
+    }
+  }
+
+  get(name: string): string | undefined {
+    return this.values.get(name);
+  }
+
+  /**
+   * Built-ins first, then user variables in the order they were set.
+   */
+  entries(): [string, string][] {
+    const builtins = BUILTIN_VARIABLES.filter((name) => this.values.has(name)).map(
+      (name): [string, string] => [name, this.values.get(name) as string]
+    );
+    const custom = Array.from(this.values.entries()).filter(
+      ([name]) => !(BUILTIN_VARIABLES as readonly string[]).includes(name)
+    );
+    return [...builtins, ...custom];
+  }
+
+  snapshot(): Record<string, string> {
+    return Object.fromEntries(this.values);
+  }
+}
+
+export const terminalVariables = new TerminalVariables();
@@ -0,0 +1,115 @@
+import {
+  Connection,
+  SendTransactionError,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  VersionedTransaction,
+  type Commitment,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BRIDGE_CONFIG } from './constants';
+
+export interface SendAndConfirmOptions {
+  /** Last block height at which the transaction's blockhash is still valid */
+  lastValidBlockHeight: number;
+  commitment?: Commitment;
+}
+
+/**
+ * Sends signed transactions and confirms them against their blockhash expiry.
+ *
+ * Outcomes:
+ * - landed: resolves with the signature
+ * - failed: throws SendTransactionError carrying the program logs
+ * - expired: throws TransactionExpiredBlockheightExceededError; rebuild with a fresh blockhash and re-sign
+ */
+export class TransactionSender {
+  async sendAndConfirm(
+    connection: Connection,
+    transaction: Transaction | VersionedTransaction,
+    { lastValidBlockHeight, commitment = 'confirmed' }: SendAndConfirmOptions
+  ): Promise<string> {
+    const signature = this.getSignature(transaction);
+    const raw = transaction.serialize();
+
+    try {
+      await connection.sendRawTransaction(raw, { skipPreflight: false, maxRetries: 0 });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('Blockhash not found')) {
+        // The wallet prompt outlived the blockhash
+        throw new TransactionExpiredBlockheightExceededError(signature);
+      }
+      if (!message.includes('already been processed')) {
+        throw error;
+      }
+      console.warn('[terminally-onchain] transaction already processed, confirming', signature);
+    }
+
+    // RPC nodes drop transactions under load; keep rebroadcasting until it lands or the blockhash expires
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, BRIDGE_CONFIG.rebroadcastInterval));
+
+      const landed = await this.checkLanded(connection, signature, commitment);
+      if (landed) {
+        return signature;
+      }
+
+      const blockHeight = await connection.getBlockHeight(commitment);
+      if (blockHeight > lastValidBlockHeight) {
+        // It may have landed between the status check and the block height read
+        if (await this.checkLanded(connection, signature, commitment)) {
+          return signature;
+        }
+        throw new TransactionExpiredBlockheightExceededError(signature);
+      }
+
+      connection
+        .sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+        .catch((error) => console.warn('[terminally-onchain] rebroadcast failed', error));
+    }
+  }
+
+  /**
+   * True once the signature reached the commitment; throws with logs when it landed with an error.
+   */
+  private async checkLanded(connection: Connection, signature: string, commitment: Commitment) {
+    const { value } = await connection.getSignatureStatuses([signature]);
+    const status = value[0];
+    if (!status?.confirmationStatus) {
+      return false;
+    }
+    if (commitment === 'finalized' && status.confirmationStatus !== 'finalized') {
+      return false;
+    }
+    if (status.confirmationStatus === 'processed') {
+      return false;
+    }
+
+    if (status.err) {
+      const landed = await connection
+        .getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 })
+        .catch(() => null);
+      throw new SendTransactionError({
+        action: 'send',
+        signature,
+        transactionMessage: `Transaction ${signature} failed: ${JSON.stringify(status.err)}`,
+        logs: landed?.meta?.logMessages ?? undefined,
+      });
+    }
+    return true;
+  }
+
+  private getSignature(transaction: Transaction | VersionedTransaction): string {
+    const signature =
+      transaction instanceof VersionedTransaction
+        ? transaction.signatures[0]
+        : transaction.signatures[0]?.signature;
+    if (!signature) {
+      throw new Error('Transaction is not signed.');
+    }
+    return bs58.encode(signature);
+  }
+}
+
+export const transactionSender = new TransactionSender();